@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Versions the service worker's shell cache; each build gets a new one.
+    NEXT_PUBLIC_BUILD_VERSION: process.env.BUILD_VERSION ?? Date.now().toString(36),
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  LOGIN_LINKS_PER_EMAIL,
+  LOGIN_LINKS_PER_IP,
+  LOGIN_LINK_WINDOW_MS,
+  LOGIN_TOKEN_TTL_MS,
+  appOrigin,
+  clientIp,
+  createDefaultMailer,
+  createRateLimiter,
+  createToken,
+  defaultAccountStore,
+  hashToken,
+  isSyncEnabled,
+  normalizeEmail,
+} from "@/lib/account";
+
+const ipLimiter = createRateLimiter(LOGIN_LINKS_PER_IP, LOGIN_LINK_WINDOW_MS);
+const emailLimiter = createRateLimiter(LOGIN_LINKS_PER_EMAIL, LOGIN_LINK_WINDOW_MS);
+
+function tooManyRequests() {
+  return NextResponse.json(
+    { error: "送信回数が多すぎます。15分ほど待ってから再度お試しください。" },
+    { status: 429 },
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const origin = appOrigin();
+  if (!isSyncEnabled() || !origin) {
+    return NextResponse.json(
+      { error: "このサーバーではアカウント同期が設定されていません。" },
+      { status: 503 },
+    );
+  }
+
+  const now = Date.now();
+  const ip = clientIp(request);
+  if (ip && !ipLimiter.take(ip, now)) return tooManyRequests();
+
+  const body = (await request.json().catch(() => null)) as { email?: unknown } | null;
+  const email = normalizeEmail(body?.email);
+  if (!email) {
+    return NextResponse.json({ error: "メールアドレスの形式が正しくありません。" }, { status: 400 });
+  }
+  if (!emailLimiter.take(email, now)) return tooManyRequests();
+
+  const token = createToken();
+  await defaultAccountStore().saveLoginToken(hashToken(token), email, now + LOGIN_TOKEN_TTL_MS);
+
+  const url = new URL("/login", origin);
+  url.searchParams.set("token", token);
+  try {
+    await createDefaultMailer().sendLoginLink(email, url.toString());
+  } catch {
+    return NextResponse.json(
+      { error: "ログインリンクを送信できませんでした。少し時間をおいて再試行してください。" },
+      { status: 502 },
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SESSION_COOKIE,
+  defaultAccountStore,
+  hashToken,
+  isSyncEnabled,
+  sessionUser,
+} from "@/lib/account";
+
+export async function GET(request: NextRequest) {
+  if (!isSyncEnabled()) return NextResponse.json({ enabled: false, email: null });
+  const user = await sessionUser(request, defaultAccountStore());
+  return NextResponse.json(
+    { enabled: true, email: user?.email ?? null },
+    { headers: { "Cache-Control": "private, no-store" } },
+  );
+}
+
+export async function DELETE(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (isSyncEnabled() && token) await defaultAccountStore().deleteSession(hashToken(token));
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  appOrigin,
+  createToken,
+  defaultAccountStore,
+  hashToken,
+  isSyncEnabled,
+} from "@/lib/account";
+
+// Tokens are consumed only by the form on /login, so mail scanners that
+// prefetch the link cannot use up the token before the user opens it.
+export async function POST(request: NextRequest) {
+  const origin = appOrigin();
+  if (!isSyncEnabled() || !origin) {
+    return NextResponse.json(
+      { error: "このサーバーではアカウント同期が設定されていません。" },
+      { status: 503 },
+    );
+  }
+  // Another site posting its own token would sign the visitor into that
+  // account and sync their records to it.
+  if (request.headers.get("origin") !== origin) {
+    return NextResponse.json({ error: "ログイン要求の送信元が正しくありません。" }, { status: 403 });
+  }
+
+  const home = new URL("/", origin);
+  const form = await request.formData().catch(() => null);
+  const token = form?.get("token");
+  const store = defaultAccountStore();
+  const email =
+    typeof token === "string" && token
+      ? await store.consumeLoginToken(hashToken(token), Date.now())
+      : null;
+  if (!email) {
+    home.searchParams.set("sync", "expired");
+    return NextResponse.redirect(home, 303);
+  }
+
+  const user = await store.findOrCreateUser(email);
+  const session = createToken();
+  await store.saveSession(hashToken(session), user.id, Date.now() + SESSION_TTL_MS);
+
+  const response = NextResponse.redirect(home, 303);
+  response.cookies.set(SESSION_COOKIE, session, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: home.protocol === "https:",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+  return response;
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createDefaultGeocoders, reversePlace } from "@/lib/geocoding";
+import { parseCoordinate } from "@/lib/request-params";
+
+const geocoders = createDefaultGeocoders();
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const lat = parseCoordinate(params.get("lat"), 90);
+  const lon = parseCoordinate(params.get("lon"), 180);
+
+  if (lat === null || lon === null) {
+    return NextResponse.json(
+      { error: "lat と lon には有効な緯度・経度を指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  const result = await reversePlace(geocoders, { lat, lon });
+  return NextResponse.json(
+    { result },
+    { headers: { "Cache-Control": "public, max-age=3600, stale-while-revalidate=86400" } },
+  );
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createDefaultGeocoders, normalizePlaceQuery, searchPlaces } from "@/lib/geocoding";
+
+const geocoders = createDefaultGeocoders();
+
+export async function GET(request: NextRequest) {
+  const query = normalizePlaceQuery(request.nextUrl.searchParams.get("q") ?? "");
+
+  if (query.length < 2 || query.length > 64) {
+    return NextResponse.json(
+      { error: "q には2〜64文字の地名または郵便番号を指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  const results = await searchPlaces(geocoders, query);
+  return NextResponse.json(
+    { results },
+    { headers: { "Cache-Control": "public, max-age=3600, stale-while-revalidate=86400" } },
+  );
+}
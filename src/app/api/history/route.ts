@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addDays, isDateString } from "@/lib/date";
+import { MAX_HISTORY_DAYS } from "@/lib/history";
+import { lookupRiskHistory } from "@/lib/history-lookup";
+import { parseCoordinate } from "@/lib/request-params";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const lat = parseCoordinate(params.get("lat"), 90);
+  const lon = parseCoordinate(params.get("lon"), 180);
+  const start = params.get("start") ?? "";
+  const end = params.get("end") ?? "";
+
+  if (lat === null || lon === null) {
+    return NextResponse.json(
+      { error: "lat と lon には有効な緯度・経度を指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  if (!isDateString(start) || !isDateString(end) || start > end) {
+    return NextResponse.json(
+      { error: "start と end は YYYY-MM-DD 形式で、start ≦ end となるよう指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  if (addDays(start, MAX_HISTORY_DAYS) < end) {
+    return NextResponse.json(
+      { error: `一度に取得できる期間は ${MAX_HISTORY_DAYS} 日までです。` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const days = await lookupRiskHistory({ lat, lon, startDate: start, endDate: end });
+    return NextResponse.json({ days });
+  } catch {
+    return NextResponse.json(
+      { error: "過去の気象データの取得に失敗しました。" },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { lookupMapTimeline } from "@/lib/map-risk";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const result = await lookupMapTimeline();
+    return NextResponse.json(result, {
+      headers: { "Cache-Control": "public, max-age=60, stale-while-revalidate=600" },
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "花粉マップの推移を取得できませんでした。少し時間をおいて再試行してください。" },
+      { status: 502 },
+    );
+  }
+}
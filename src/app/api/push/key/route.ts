@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { createDefaultPushSender } from "@/lib/push";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const sender = createDefaultPushSender();
+  if (!sender) {
+    return NextResponse.json(
+      { error: "このサーバーでは通知機能が設定されていません。" },
+      { status: 503 },
+    );
+  }
+  return NextResponse.json({ publicKey: sender.publicKey });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseAlertSubscriptionRequest } from "@/lib/alert-settings";
+import { createDefaultPushSender, defaultSubscriptionStore, subscriptionId } from "@/lib/push";
+
+export async function POST(request: NextRequest) {
+  if (!createDefaultPushSender()) {
+    return NextResponse.json(
+      { error: "このサーバーでは通知機能が設定されていません。" },
+      { status: 503 },
+    );
+  }
+
+  const body = parseAlertSubscriptionRequest(await request.json().catch(() => null));
+  if (!body) {
+    return NextResponse.json(
+      { error: "通知の登録内容が正しくありません。地点・しきい値・通知時刻を確認してください。" },
+      { status: 400 },
+    );
+  }
+
+  const store = defaultSubscriptionStore();
+  const id = subscriptionId(body.subscription.endpoint);
+  const existing = (await store.list()).find((item) => item.id === id);
+  const saved = await store.put({
+    ...body,
+    id,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+    // Changing the time or threshold re-arms today's alert.
+    lastNotifiedDate: null,
+  });
+  if (!saved) {
+    return NextResponse.json(
+      { error: "通知の登録数が上限に達しています。しばらくしてから再度お試しください。" },
+      { status: 503 },
+    );
+  }
+  return NextResponse.json({ id });
+}
+
+export async function DELETE(request: NextRequest) {
+  const body = (await request.json().catch(() => null)) as { endpoint?: unknown } | null;
+  if (typeof body?.endpoint !== "string") {
+    return NextResponse.json({ error: "endpoint を指定してください。" }, { status: 400 });
+  }
+  await defaultSubscriptionStore().delete(subscriptionId(body.endpoint));
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isDateString, toJstDateString } from "@/lib/date";
+import { MAX_FORECAST_DAYS } from "@/lib/open-meteo";
+import { lastForecastDate, lookupRisk } from "@/lib/risk-lookup";
+import { parseCoordinate } from "@/lib/request-params";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const lat = parseCoordinate(params.get("lat"), 90);
+  const lon = parseCoordinate(params.get("lon"), 180);
+  const date = params.get("date") ?? undefined;
+  const rawDays = params.get("days");
+  const days = rawDays === null ? undefined : Number(rawDays);
+
+  if (lat === null || lon === null) {
+    return NextResponse.json(
+      { error: "lat と lon には有効な緯度・経度を指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  if (date !== undefined && !isDateString(date)) {
+    return NextResponse.json(
+      { error: "date は YYYY-MM-DD 形式で指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  if (date !== undefined && date > lastForecastDate(toJstDateString(new Date()))) {
+    return NextResponse.json(
+      { error: `date には今日から${MAX_FORECAST_DAYS - 1}日先までの日付を指定してください。` },
+      { status: 400 },
+    );
+  }
+
+  if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS)) {
+    return NextResponse.json(
+      { error: `days には 1〜${MAX_FORECAST_DAYS} の整数を指定してください。` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await lookupRisk({ lat, lon, date, days });
+    return NextResponse.json(result, {
+      headers: { "Cache-Control": "public, max-age=60, stale-while-revalidate=600" },
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "気象データの取得に失敗しました。少し時間をおいて再試行してください。" },
+      { status: 502 },
+    );
+  }
+}
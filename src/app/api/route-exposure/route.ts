@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addDays, isDateString, isTimeString, toJstDateString } from "@/lib/date";
+import { MAX_FORECAST_DAYS } from "@/lib/open-meteo";
+import {
+  MAX_ROUTE_STOPS,
+  MIN_ROUTE_STOPS,
+  isRouteInOrder,
+  parseRouteStops,
+} from "@/lib/route-exposure";
+import { lookupRouteExposure } from "@/lib/route-exposure-lookup";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const today = toJstDateString(new Date());
+  const date = params.get("date") ?? today;
+  const stops = parseRouteStops(params.get("stops") ?? "");
+  const windowStart = params.get("windowStart") ?? stops?.[0]?.time ?? "";
+  const windowEnd = params.get("windowEnd") ?? windowStart;
+
+  if (!isDateString(date) || date < today || date > addDays(today, MAX_FORECAST_DAYS - 1)) {
+    return NextResponse.json(
+      { error: `date には今日から ${MAX_FORECAST_DAYS} 日以内の日付を YYYY-MM-DD 形式で指定してください。` },
+      { status: 400 },
+    );
+  }
+
+  if (!stops || !isRouteInOrder(stops)) {
+    return NextResponse.json(
+      { error: "stops は「緯度,経度,HH:MM」を ; でつなぎ、時刻が順に進むよう指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  if (stops.length < MIN_ROUTE_STOPS || stops.length > MAX_ROUTE_STOPS) {
+    return NextResponse.json(
+      { error: `stops には ${MIN_ROUTE_STOPS}〜${MAX_ROUTE_STOPS} 地点を指定してください。` },
+      { status: 400 },
+    );
+  }
+
+  if (!isTimeString(windowStart) || !isTimeString(windowEnd) || windowStart > windowEnd) {
+    return NextResponse.json(
+      { error: "windowStart と windowEnd は HH:MM 形式で、windowStart ≦ windowEnd となるよう指定してください。" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await lookupRouteExposure({ date, stops, windowStart, windowEnd });
+    return NextResponse.json(result, {
+      headers: { "Cache-Control": "public, max-age=60, stale-while-revalidate=600" },
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "経路の気象データの取得に失敗しました。少し時間をおいて再試行してください。" },
+      { status: 502 },
+    );
+  }
+}
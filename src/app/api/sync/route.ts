@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { defaultAccountStore, isSyncEnabled, sessionUser } from "@/lib/account";
+import { sanitizeSyncRecord, type SyncRecord } from "@/lib/sync";
+
+const MAX_SYNC_RECORDS = 20000;
+
+async function authorize(request: NextRequest) {
+  if (!isSyncEnabled()) {
+    return NextResponse.json(
+      { error: "このサーバーではアカウント同期が設定されていません。" },
+      { status: 503 },
+    );
+  }
+  const user = await sessionUser(request, defaultAccountStore());
+  if (!user) {
+    return NextResponse.json(
+      { error: "ログインの有効期限が切れました。もう一度ログインしてください。" },
+      { status: 401 },
+    );
+  }
+  return user;
+}
+
+async function recordsResponse(userId: string) {
+  return NextResponse.json(
+    { records: await defaultAccountStore().listRecords(userId), syncedAt: new Date().toISOString() },
+    { headers: { "Cache-Control": "private, no-store" } },
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const user = await authorize(request);
+  if (user instanceof NextResponse) return user;
+  return recordsResponse(user.id);
+}
+
+export async function POST(request: NextRequest) {
+  const user = await authorize(request);
+  if (user instanceof NextResponse) return user;
+
+  const body = (await request.json().catch(() => null)) as { records?: unknown } | null;
+  const records =
+    Array.isArray(body?.records) && body.records.length <= MAX_SYNC_RECORDS
+      ? body.records.map(sanitizeSyncRecord)
+      : null;
+  if (!records || !records.every((record): record is SyncRecord => record !== null)) {
+    return NextResponse.json({ error: "同期データの形式が正しくありません。" }, { status: 400 });
+  }
+
+  await defaultAccountStore().putRecords(user.id, records);
+  return recordsResponse(user.id);
+}
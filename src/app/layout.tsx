@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { M_PLUS_Rounded_1c, Noto_Sans_JP } from "next/font/google";
 import "./globals.css";
 
@@ -20,6 +20,10 @@ export const metadata: Metadata = {
     "花粉症の方向けに、気象データから飛散リスクを推定し症状を記録できるウェブアプリ。",
 };
 
+export const viewport: Viewport = {
+  themeColor: "#0f766e",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
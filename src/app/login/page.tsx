@@ -0,0 +1,47 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+
+export const metadata: Metadata = {
+  title: "ログイン | 花粉コンディション・ナビ",
+  referrer: "no-referrer",
+  robots: { index: false },
+};
+
+// The emailed link only opens this page; the token is spent when the button
+// posts it, never by the GET a link scanner might send.
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string | string[] }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="app-shell px-4 py-8 sm:px-6 lg:px-8">
+      <main className="panel-card mx-auto max-w-md rounded-[2rem] p-6 sm:p-8">
+        <h1 className="font-heading text-2xl text-slate-900">端末間の同期にログイン</h1>
+        {typeof token === "string" && token ? (
+          <form method="post" action="/api/auth/verify" className="mt-4">
+            <input type="hidden" name="token" value={token} />
+            <p className="text-sm text-slate-600">
+              この端末でログインすると、症状ログ・対策チェックの履歴・保存した地点が同期されます。
+            </p>
+            <button type="submit" className="action-btn action-btn-accent mt-4">
+              ログインする
+            </button>
+          </form>
+        ) : (
+          <p className="mt-4 text-sm text-slate-600">
+            ログインリンクが正しくありません。ダッシュボードからもう一度送信してください。
+          </p>
+        )}
+        <Link
+          href="/"
+          className="mt-4 inline-block text-sm font-semibold text-teal-700 hover:underline"
+        >
+          ダッシュボードへ戻る
+        </Link>
+      </main>
+    </div>
+  );
+}
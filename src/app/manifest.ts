@@ -0,0 +1,16 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "花粉コンディション・ナビ",
+    short_name: "花粉ナビ",
+    description:
+      "花粉症の方向けに、気象データから飛散リスクを推定し症状を記録できるウェブアプリ。",
+    lang: "ja",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#eaf3ff",
+    theme_color: "#0f766e",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml" }],
+  };
+}
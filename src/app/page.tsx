@@ -1,92 +1,108 @@
 "use client";
 
-import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
-
-type RiskLevel = "低い" | "やや高い" | "高い" | "非常に高い";
-
-type LocationOption = {
-  id: string;
-  name: string;
-  lat: number;
-  lon: number;
-};
-
-type WeatherSnapshot = {
-  temperature: number;
-  humidity: number;
-  wind: number;
-  precipitation: number;
-  pm10: number;
-  pm25: number;
-};
-
-type RiskResult = {
-  score: number;
-  level: RiskLevel;
-  advice: string;
-};
-
-type ForecastDay = {
-  date: string;
-  score: number;
-  level: RiskLevel;
-};
-
-type SymptomLog = {
-  date: string;
-  severity: number;
-  tookMedicine: boolean;
-  memo: string;
-};
-
-type DailyActionKey =
-  | "mask"
-  | "glasses"
-  | "laundryInside"
-  | "shower"
-  | "roomClean";
-
-type PollenTypeId = "cedar" | "cypress" | "grass" | "ragweed" | "birch";
-
-type PollenType = {
-  id: PollenTypeId;
-  name: string;
-  seasonMonths: number[];
-  peakMonths: number[];
-  description: string;
-  care: string;
-};
-
-type PollenTypeStatus = PollenType & {
-  score: number;
-  level: RiskLevel;
-};
-
-type MapCity = {
-  id: string;
-  name: string;
-  lat: number;
-  lon: number;
-  region: string;
-  pollenSuitability: number;
-};
-
-type CityRiskPoint = MapCity & {
-  score: number;
-  level: RiskLevel;
-  temperature: number;
-  humidity: number;
-  wind: number;
-  precipitation: number;
-};
-
-type GeoPoint = {
-  lat: number;
-  lon: number;
-};
-
-const STORAGE_LOG_KEY = "kafun-symptom-log-v1";
-const STORAGE_ACTION_KEY = "kafun-action-check-v1";
+import Link from "next/link";
+import {
+  FormEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import {
+  estimatePollenTypeStatus,
+  fitCalibrationModel,
+  personalRisk,
+  pollenCatalog,
+  riskLevel,
+  type DailyRiskContext,
+  type PollenTypeId,
+  type PollenTypeScore,
+  type ForecastDay,
+  type HourlyRisk,
+  type PollenTypeStatus,
+  type RiskFactor,
+  type RiskResult,
+  type RiskWindow,
+  type WeatherSnapshot,
+} from "@/lib/scoring";
+import { addDays, jstMonth, toDayLabel, toJstDateString, toJstTimeString } from "@/lib/date";
+import {
+  actionEffects,
+  actionStateFor,
+  completionRate,
+  defaultActionItems,
+  loadActionHistory,
+  loadActionItems,
+  mergeActionHistory,
+  mergeActionItems,
+  prioritizeActions,
+  saveActionHistory,
+  saveActionItems,
+  type ActionHistory,
+  type ActionItem,
+} from "@/lib/action-checklist";
+import { ActionItemEditor } from "@/components/ActionItemEditor";
+import { AlertSettingsPanel } from "@/components/AlertSettingsPanel";
+import { DataTransferPanel } from "@/components/DataTransferPanel";
+import { HourlyRiskChart } from "@/components/HourlyRiskChart";
+import { LocationSearch } from "@/components/LocationSearch";
+import { MedicationRegistry } from "@/components/MedicationRegistry";
+import { PersonalRiskCard } from "@/components/PersonalRiskCard";
+import { PollenMap, type MapLayer } from "@/components/PollenMap";
+import { RoutePlanner } from "@/components/RoutePlanner";
+import { SavedLocationCards } from "@/components/SavedLocationCards";
+import { SyncPanel } from "@/components/SyncPanel";
+import {
+  levelChipClass,
+  sourceChipClass,
+  sourceLabel,
+} from "@/components/level-style";
+import { mergeEntries, mergeMedications, type ImportedData } from "@/lib/data-transfer";
+import { windDirectionLabel, type LocationOption } from "@/lib/geo";
+import type { GeocodeResult } from "@/lib/geocoding";
+import { MAX_HISTORY_DAYS, type HistoricalRiskDay } from "@/lib/history";
+import {
+  OFFLINE_LOG_RETRY_MS,
+  groupOfflineLogs,
+  loadOfflineLogQueue,
+  saveOfflineLogQueue,
+  type OfflineLogItem,
+} from "@/lib/offline-queue";
+import {
+  ADHERENCE_WINDOW_DAYS,
+  adherenceStats,
+  loadMedications,
+  medicationComparison,
+  saveMedications,
+  tookAnyMedicine,
+  type Medication,
+} from "@/lib/medication";
+import {
+  createSavedLocation,
+  loadSavedLocations,
+  moveSavedLocation,
+  saveSavedLocations,
+} from "@/lib/saved-locations";
+import {
+  dailySeverities,
+  emptySymptoms,
+  entryId,
+  loadSymptomLog,
+  saveSymptomLog,
+  symptomItems,
+  timeOfDayLabels,
+  upsertEntry,
+  type LogContext,
+  type SymptomEntry,
+  type SymptomKey,
+  type TimeOfDay,
+} from "@/lib/symptom-log";
+import type { CityRiskPoint, MapRiskLookup, MapTimeline } from "@/lib/map-risk";
+import type { RiskLookup } from "@/lib/risk-lookup";
+import { CACHED_AT_HEADER, registerServiceWorker } from "@/lib/service-worker";
+import type { LocalSyncData } from "@/lib/sync";
 
 const defaultLocations: LocationOption[] = [
   { id: "tokyo", name: "東京", lat: 35.6764, lon: 139.65 },
@@ -96,360 +112,83 @@ const defaultLocations: LocationOption[] = [
   { id: "fukuoka", name: "福岡", lat: 33.5902, lon: 130.4017 },
 ];
 
-const mapCities: MapCity[] = [
-  {
-    id: "sapporo",
-    name: "札幌",
-    lat: 43.0618,
-    lon: 141.3545,
-    region: "北海道",
-    pollenSuitability: 0.64,
-  },
-  {
-    id: "sendai",
-    name: "仙台",
-    lat: 38.2682,
-    lon: 140.8694,
-    region: "東北",
-    pollenSuitability: 0.95,
-  },
-  {
-    id: "tokyo",
-    name: "東京",
-    lat: 35.6764,
-    lon: 139.65,
-    region: "関東",
-    pollenSuitability: 1,
-  },
-  {
-    id: "niigata",
-    name: "新潟",
-    lat: 37.9161,
-    lon: 139.0364,
-    region: "甲信越",
-    pollenSuitability: 0.9,
-  },
-  {
-    id: "nagoya",
-    name: "名古屋",
-    lat: 35.1815,
-    lon: 136.9066,
-    region: "中部",
-    pollenSuitability: 0.93,
-  },
-  {
-    id: "osaka",
-    name: "大阪",
-    lat: 34.6937,
-    lon: 135.5023,
-    region: "関西",
-    pollenSuitability: 0.88,
-  },
-  {
-    id: "hiroshima",
-    name: "広島",
-    lat: 34.3853,
-    lon: 132.4553,
-    region: "中国",
-    pollenSuitability: 0.84,
-  },
-  {
-    id: "kochi",
-    name: "高知",
-    lat: 33.5597,
-    lon: 133.5311,
-    region: "四国",
-    pollenSuitability: 0.82,
-  },
-  {
-    id: "fukuoka",
-    name: "福岡",
-    lat: 33.5902,
-    lon: 130.4017,
-    region: "九州",
-    pollenSuitability: 0.78,
-  },
-  {
-    id: "kagoshima",
-    name: "鹿児島",
-    lat: 31.5966,
-    lon: 130.5571,
-    region: "南九州",
-    pollenSuitability: 0.66,
-  },
-  {
-    id: "naha",
-    name: "那覇",
-    lat: 26.2125,
-    lon: 127.6811,
-    region: "沖縄",
-    pollenSuitability: 0.22,
-  },
+const riskFactorItems: { key: RiskFactor; label: string }[] = [
+  { key: "seasonal", label: "季節" },
+  { key: "temperature", label: "気温" },
+  { key: "wind", label: "風速" },
+  { key: "humidity", label: "湿度" },
+  { key: "pm25", label: "PM2.5" },
+  { key: "pm10", label: "PM10" },
+  { key: "rain", label: "降水" },
 ];
 
-const mapGuides: GeoPoint[][] = [
-  [
-    { lat: 31.3, lon: 130.2 },
-    { lat: 32.3, lon: 131.1 },
-    { lat: 33.0, lon: 132.0 },
-    { lat: 33.7, lon: 133.7 },
-    { lat: 34.4, lon: 134.8 },
-    { lat: 35.1, lon: 136.1 },
-    { lat: 35.7, lon: 139.2 },
-    { lat: 36.6, lon: 140.2 },
-    { lat: 38.1, lon: 141.2 },
-    { lat: 40.9, lon: 141.4 },
-  ],
-  [
-    { lat: 41.2, lon: 139.2 },
-    { lat: 43.2, lon: 141.5 },
-    { lat: 44.0, lon: 144.8 },
-    { lat: 43.0, lon: 145.5 },
-    { lat: 41.7, lon: 142.8 },
-    { lat: 41.2, lon: 139.2 },
-  ],
-  [
-    { lat: 33.9, lon: 133.2 },
-    { lat: 33.8, lon: 134.6 },
-    { lat: 33.9, lon: 132.1 },
-    { lat: 33.8, lon: 133.2 },
-  ],
-  [
-    { lat: 31.1, lon: 130.2 },
-    { lat: 32.9, lon: 129.9 },
-    { lat: 33.8, lon: 131.7 },
-    { lat: 31.1, lon: 130.2 },
-  ],
-  [
-    { lat: 24.8, lon: 127.1 },
-    { lat: 25.7, lon: 127.5 },
-    { lat: 26.2, lon: 127.8 },
-    { lat: 26.8, lon: 128.3 },
-  ],
-];
-
-const pollenCatalog: PollenType[] = [
-  {
-    id: "cedar",
-    name: "スギ",
-    seasonMonths: [2, 3, 4],
-    peakMonths: [2, 3],
-    description: "日本で最も患者数が多い代表的な花粉。早春から急増します。",
-    care: "朝の飛散ピーク前に洗濯・換気を済ませると悪化を防ぎやすいです。",
-  },
-  {
-    id: "cypress",
-    name: "ヒノキ",
-    seasonMonths: [3, 4, 5],
-    peakMonths: [4],
-    description: "スギの後に飛散が強まり、症状が長引く要因になりやすい花粉です。",
-    care: "4月以降も自己判断で薬をやめず、就寝前の鼻洗浄を継続しましょう。",
-  },
-  {
-    id: "grass",
-    name: "イネ科",
-    seasonMonths: [4, 5, 6, 7, 8],
-    peakMonths: [5, 6],
-    description: "河川敷や草地の近くで反応しやすく、初夏まで長く続きます。",
-    care: "草地に近いルートを避け、帰宅時に靴と裾の花粉を落としてください。",
-  },
-  {
-    id: "ragweed",
-    name: "ブタクサ",
-    seasonMonths: [8, 9, 10],
-    peakMonths: [9],
-    description: "秋に増える代表花粉で、朝夕の散歩で症状が出る方が多いです。",
-    care: "秋は窓開け換気の時間帯を昼に寄せると吸入量を減らしやすいです。",
-  },
-  {
-    id: "birch",
-    name: "シラカンバ",
-    seasonMonths: [4, 5, 6],
-    peakMonths: [5],
-    description: "北海道・東北で注意される花粉。地域により体感差が大きいです。",
-    care: "目のかゆみが強い日は防風メガネと人工涙液を併用してください。",
-  },
-];
-
-const actionItems: { key: DailyActionKey; label: string }[] = [
-  { key: "mask", label: "高性能マスクを着用する" },
-  { key: "glasses", label: "メガネ・ゴーグルで目を守る" },
-  { key: "laundryInside", label: "洗濯物は室内干しにする" },
-  { key: "shower", label: "帰宅後にシャワーで花粉を落とす" },
-  { key: "roomClean", label: "寝室の掃除・空気清浄を行う" },
-];
-
-const defaultActionState: Record<DailyActionKey, boolean> = {
-  mask: false,
-  glasses: false,
-  laundryInside: false,
-  shower: false,
-  roomClean: false,
-};
+const forecastDayOptions = [7, 10, 16];
 
 const monthList = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
 
-const mapBounds = {
-  latMin: 24,
-  latMax: 46,
-  lonMin: 127,
-  lonMax: 146,
-};
-
-function clamp(value: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, value));
-}
-
-function riskLevel(score: number): RiskLevel {
-  if (score >= 75) return "非常に高い";
-  if (score >= 55) return "高い";
-  if (score >= 35) return "やや高い";
-  return "低い";
-}
-
-function riskAdvice(level: RiskLevel): string {
-  if (level === "非常に高い") {
-    return "外出は短時間にし、マスク・メガネ・上着の花粉対策を徹底してください。";
-  }
-  if (level === "高い") {
-    return "長時間の外出後は衣類をはらい、洗顔・うがいを早めに行いましょう。";
-  }
-  if (level === "やや高い") {
-    return "油断せず、窓開け時間を短くして室内の花粉侵入を抑えると安心です。";
-  }
-  return "比較的穏やかですが、症状が出やすい方は予防薬を継続してください。";
-}
-
-function seasonalBase(month: number): number {
-  if (month >= 2 && month <= 4) return 48;
-  if (month === 5) return 36;
-  if (month >= 6 && month <= 9) return 16;
-  return 10;
-}
-
-function estimateRisk(input: {
-  date: Date;
-  temperature: number;
-  humidity: number;
-  wind: number;
-  precipitation: number;
-  pm10: number;
-  pm25: number;
-}): RiskResult {
-  const month = input.date.getMonth() + 1;
-  let score = seasonalBase(month);
-  score += clamp((input.temperature - 12) * 1.8, -6, 22);
-  score += clamp((input.wind - 2) * 2.9, 0, 20);
-  score += clamp((48 - input.humidity) * 0.6, 0, 15);
-  score += clamp((input.pm25 - 15) * 0.4, 0, 9);
-  score += clamp((input.pm10 - 30) * 0.25, 0, 8);
-
-  if (input.precipitation > 0) score -= 16;
-  if (input.humidity >= 70) score -= 6;
-
-  const normalized = Math.round(clamp(score, 0, 100));
-  const level = riskLevel(normalized);
-
-  return { score: normalized, level, advice: riskAdvice(level) };
-}
-
-function toDayLabel(dateString: string) {
-  return new Intl.DateTimeFormat("ja-JP", {
-    month: "numeric",
-    day: "numeric",
-    weekday: "short",
-  }).format(new Date(dateString));
-}
-
-function toJstDateString(date: Date) {
-  return new Intl.DateTimeFormat("sv-SE", {
-    timeZone: "Asia/Tokyo",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(date);
-}
+const mapLayerOptions: { id: MapLayer; label: string }[] = [
+  { id: "dots", label: "地点" },
+  { id: "heatmap", label: "ヒートマップ" },
+  { id: "both", label: "両方" },
+];
 
-function toJstTimeString(date: Date) {
-  return new Intl.DateTimeFormat("ja-JP", {
-    timeZone: "Asia/Tokyo",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).format(date);
-}
+const MAP_PLAY_INTERVAL_MS = 400;
+const MAP_TIMELINE_TTL_MS = 10 * 60 * 1000;
 
-function parseNumber(value: unknown, fallback = 0) {
-  const num = Number(value);
-  return Number.isFinite(num) ? num : fallback;
+function topPollenTypeIds(pollenTypes: PollenTypeScore[]) {
+  return [...pollenTypes]
+    .sort((a, b) => b.score - a.score)
+    .filter((type) => type.score >= 35)
+    .slice(0, 2)
+    .map((type) => type.id);
 }
 
-function monthDistance(a: number, b: number) {
-  const distance = Math.abs(a - b);
-  return Math.min(distance, 12 - distance);
+function pollenNames(ids: PollenTypeId[]) {
+  if (ids.length === 0) return "目立つ種類なし";
+  return ids
+    .map((id) => pollenCatalog.find((type) => type.id === id)?.name ?? id)
+    .join("・");
 }
 
-function seasonalFactor(currentMonth: number, seasonMonths: number[]) {
-  if (seasonMonths.includes(currentMonth)) return 1;
-  if (seasonMonths.some((month) => monthDistance(month, currentMonth) === 1)) {
-    return 0.44;
-  }
-  if (seasonMonths.some((month) => monthDistance(month, currentMonth) === 2)) {
-    return 0.2;
-  }
-  return 0;
+function historyContext(day: HistoricalRiskDay, location: LocationOption): LogContext {
+  return {
+    risk: day.risk,
+    weather: day.weather,
+    pollenTypes: day.pollenTypes,
+    location,
+    topPollenTypes: topPollenTypeIds(day.pollenTypes),
+    capturedBy: "backfill",
+  };
 }
 
-function estimatePollenTypeScore(
-  type: PollenType,
-  currentMonth: number,
-  weather: WeatherSnapshot | null,
-  overallRiskScore: number,
-) {
-  const season = seasonalFactor(currentMonth, type.seasonMonths);
-  const windBoost = weather ? clamp((weather.wind - 2) * 6, 0, 18) : 6;
-  const dryBoost = weather ? clamp((50 - weather.humidity) * 0.35, 0, 12) : 4;
-  const rainPenalty = weather && weather.precipitation > 0 ? 12 : 0;
-
-  const score = Math.round(
-    clamp(season * 72 + overallRiskScore * 0.22 + windBoost + dryBoost - rainPenalty, 0, 100),
-  );
-
-  return score;
+function subscribeOnline(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
 }
 
-function levelChipClass(level: RiskLevel) {
-  if (level === "非常に高い") return "bg-rose-100 text-rose-700";
-  if (level === "高い") return "bg-orange-100 text-orange-700";
-  if (level === "やや高い") return "bg-amber-100 text-amber-700";
-  return "bg-emerald-100 text-emerald-700";
+function cachedAtLabel(iso: string) {
+  const cachedAt = new Date(iso);
+  const time = toJstTimeString(cachedAt);
+  const date = toJstDateString(cachedAt);
+  return date === toJstDateString(new Date()) ? time : `${toDayLabel(date)} ${time}`;
 }
 
-function levelDotClass(level: RiskLevel) {
-  if (level === "非常に高い") return "bg-rose-600";
-  if (level === "高い") return "bg-orange-500";
-  if (level === "やや高い") return "bg-amber-500";
-  return "bg-emerald-500";
+function defaultTimeOfDay(): TimeOfDay {
+  return Number(toJstTimeString(new Date()).slice(0, 2)) < 15 ? "morning" : "evening";
 }
 
-function geoToPercent(lat: number, lon: number) {
-  const x = ((lon - mapBounds.lonMin) / (mapBounds.lonMax - mapBounds.lonMin)) * 100;
-  const y = ((mapBounds.latMax - lat) / (mapBounds.latMax - mapBounds.latMin)) * 100;
-  return {
-    x: clamp(x, 0, 100),
-    y: clamp(y, 0, 100),
-  };
+function timelineLabel(time: string) {
+  return `${toDayLabel(time.slice(0, 10))} ${time.slice(11, 16)}`;
 }
 
-function adjustMapRiskScore(rawScore: number, suitability: number, month: number) {
-  const monthScale =
-    month >= 2 && month <= 4 ? 1 : month === 5 ? 0.78 : month >= 8 && month <= 10 ? 0.55 : 0.35;
-  const effectiveSuitability = clamp(suitability * monthScale, 0.15, 1);
-  const baseline = 14;
-
-  return Math.round(
-    clamp(rawScore * effectiveSuitability + baseline * (1 - effectiveSuitability), 0, 100),
-  );
+function confidenceLabel(confidence: number) {
+  if (confidence >= 0.8) return "高";
+  if (confidence >= 0.55) return "中";
+  return "低";
 }
 
 export default function Home() {
@@ -457,9 +196,18 @@ export default function Home() {
   const [customLocation, setCustomLocation] = useState<LocationOption | null>(
     null,
   );
+  const [savedLocations, setSavedLocations] = useState<LocationOption[]>([]);
+  const [savedRisks, setSavedRisks] = useState<Record<string, RiskResult | null>>({});
   const [weather, setWeather] = useState<WeatherSnapshot | null>(null);
   const [todayRisk, setTodayRisk] = useState<RiskResult | null>(null);
+  const [riskCachedAt, setRiskCachedAt] = useState<string | null>(null);
   const [forecast, setForecast] = useState<ForecastDay[]>([]);
+  const [forecastDays, setForecastDays] = useState(forecastDayOptions[0]);
+  const [hourly, setHourly] = useState<HourlyRisk[]>([]);
+  const [bestWindows, setBestWindows] = useState<RiskWindow[]>([]);
+  const [pollenTypeStatus, setPollenTypeStatus] = useState<PollenTypeStatus[]>(() =>
+    estimatePollenTypeStatus(jstMonth(new Date()), null, 40),
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [geoLoading, setGeoLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -469,63 +217,148 @@ export default function Home() {
   const [mapError, setMapError] = useState<string | null>(null);
   const [mapUpdatedAt, setMapUpdatedAt] = useState<string | null>(null);
   const [activeMapCityId, setActiveMapCityId] = useState<string | null>(null);
-
+  const [mapLayer, setMapLayer] = useState<MapLayer>("both");
+  const [mapTimeline, setMapTimeline] = useState<MapTimeline | null>(null);
+  const [timelineLoading, setTimelineLoading] = useState(false);
+  const [mapFrame, setMapFrame] = useState<number | null>(null);
+  const [mapPlaying, setMapPlaying] = useState(false);
+  const mapTimelineFetchedAt = useRef(0);
   const [symptomSeverity, setSymptomSeverity] = useState(4);
+  const [symptomScores, setSymptomScores] = useState<Record<SymptomKey, number>>(emptySymptoms);
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>("morning");
   const [tookMedicine, setTookMedicine] = useState(false);
+  const [intakeTimes, setIntakeTimes] = useState<Record<string, string>>({});
+  const [medications, setMedications] = useState<Medication[]>([]);
   const [memo, setMemo] = useState("");
-  const [logs, setLogs] = useState<SymptomLog[]>([]);
-  const [actions, setActions] =
-    useState<Record<DailyActionKey, boolean>>(defaultActionState);
-
-  const options = customLocation
-    ? [customLocation, ...defaultLocations]
-    : defaultLocations;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [visibleLogCount, setVisibleLogCount] = useState(7);
+  const [logs, setLogs] = useState<SymptomEntry[]>([]);
+  const [logsLoaded, setLogsLoaded] = useState(false);
+  const backfillStarted = useRef(false);
+  const [offlineQueue, setOfflineQueue] = useState<OfflineLogItem[]>([]);
+  const isOnline = useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true);
+  const [actionHistory, setActionHistory] = useState<ActionHistory>({});
+  const [actionItems, setActionItems] = useState<ActionItem[]>(defaultActionItems);
+  const [actionDate, setActionDate] = useState(() => toJstDateString(new Date()));
+
+  const options = [
+    ...savedLocations,
+    ...(customLocation ? [customLocation] : []),
+    ...defaultLocations,
+  ];
 
   const selectedLocation =
     options.find((item) => item.id === selectedId) ?? options[0];
 
-  const completionRate = useMemo(() => {
-    const done = Object.values(actions).filter(Boolean).length;
-    return Math.round((done / actionItems.length) * 100);
-  }, [actions]);
+  const actions = actionStateFor(actionHistory, actionDate);
+
+  const actionCompletion = completionRate(actions, actionItems);
+
+  const syncData = useMemo<LocalSyncData | null>(
+    () => (logsLoaded ? { entries: logs, actionHistory, savedLocations } : null),
+    [logsLoaded, logs, actionHistory, savedLocations],
+  );
+
+  const prioritizedActions = useMemo(
+    () => prioritizeActions(actionItems, todayRisk?.level ?? null),
+    [actionItems, todayRisk],
+  );
+
+  const recentActionDays = useMemo(
+    () =>
+      Array.from({ length: 7 }, (_, index) => {
+        const date = addDays(actionDate, index - 6);
+        const state = actionHistory[date];
+        return { date, rate: state ? completionRate(state, actionItems) : null };
+      }),
+    [actionHistory, actionDate, actionItems],
+  );
+
+  const editingEntry = logs.find((entry) => entry.id === editingId) ?? null;
+
+  const dailyLogs = useMemo(() => dailySeverities(logs), [logs]);
+
+  const effects = useMemo(
+    () => actionEffects(actionHistory, dailyLogs, actionItems),
+    [actionHistory, dailyLogs, actionItems],
+  );
 
   const weeklyAverage = useMemo(() => {
-    if (logs.length === 0) return null;
-    const list = logs.slice(0, 7);
+    if (dailyLogs.length === 0) return null;
+    const list = dailyLogs.slice(0, 7);
     const avg = list.reduce((sum, item) => sum + item.severity, 0) / list.length;
     return Number(avg.toFixed(1));
-  }, [logs]);
+  }, [dailyLogs]);
 
   const trend = useMemo(() => {
-    if (logs.length < 6) return null;
-    const latest = logs.slice(0, 3);
-    const previous = logs.slice(3, 6);
+    if (dailyLogs.length < 6) return null;
+    const latest = dailyLogs.slice(0, 3);
+    const previous = dailyLogs.slice(3, 6);
     const latestAvg = latest.reduce((sum, item) => sum + item.severity, 0) / 3;
     const previousAvg = previous.reduce((sum, item) => sum + item.severity, 0) / 3;
     const delta = Number((latestAvg - previousAvg).toFixed(1));
     return delta;
-  }, [logs]);
-
-  const pollenTypeStatus = useMemo<PollenTypeStatus[]>(() => {
-    const month = new Date().getMonth() + 1;
-    const overall = todayRisk?.score ?? 40;
-
-    return pollenCatalog
-      .map((type) => {
-        const score = estimatePollenTypeScore(type, month, weather, overall);
-        return {
-          ...type,
-          score,
-          level: riskLevel(score),
-        };
+  }, [dailyLogs]);
+
+  const adherence = useMemo(
+    () => adherenceStats(medications, logs, toJstDateString(new Date())),
+    [medications, logs],
+  );
+
+  const overallAdherence = useMemo(() => {
+    const expected = adherence.reduce((sum, item) => sum + item.expected, 0);
+    if (expected === 0) return null;
+    const taken = adherence.reduce((sum, item) => sum + item.taken, 0);
+    return Math.round((taken / expected) * 100);
+  }, [adherence]);
+
+  const medicationEffect = useMemo(() => medicationComparison(dailyLogs), [dailyLogs]);
+
+  const todayContext = useMemo<DailyRiskContext | null>(() => {
+    if (!todayRisk || !weather) return null;
+    return {
+      risk: todayRisk,
+      weather,
+      pollenTypes: pollenTypeStatus.map(({ id, score, level, source }) => ({
+        id,
+        score,
+        level,
+        source,
+      })),
+    };
+  }, [todayRisk, weather, pollenTypeStatus]);
+
+  const calibrationSamples = useMemo(() => {
+    return dailyLogs.flatMap((day) => {
+      const context = day.entries.find((entry) => entry.context)?.context;
+      return context ? [{ ...context, severity: day.severity }] : [];
+    });
+  }, [dailyLogs]);
+
+  const calibrationModel = useMemo(() => {
+    return fitCalibrationModel(calibrationSamples);
+  }, [calibrationSamples]);
+
+  const personal = useMemo(() => {
+    if (!calibrationModel || !todayContext) return null;
+    return personalRisk(calibrationModel, todayContext);
+  }, [calibrationModel, todayContext]);
+
+  const mapPoints = useMemo(() => {
+    if (mapFrame === null || !mapTimeline) return mapRisks;
+    return mapRisks
+      .filter((city) => mapTimeline.scores[city.id])
+      .map((city) => {
+        const score = mapTimeline.scores[city.id][mapFrame];
+        return { ...city, score, level: riskLevel(score) };
       })
       .sort((a, b) => b.score - a.score);
-  }, [todayRisk, weather]);
+  }, [mapRisks, mapTimeline, mapFrame]);
 
   const activeMapCity = useMemo(() => {
     if (!activeMapCityId) return null;
-    return mapRisks.find((city) => city.id === activeMapCityId) ?? null;
-  }, [mapRisks, activeMapCityId]);
+    return mapPoints.find((city) => city.id === activeMapCityId) ?? null;
+  }, [mapPoints, activeMapCityId]);
 
   const highAttentionPollen = useMemo(() => {
     const list = pollenTypeStatus
@@ -545,90 +378,40 @@ export default function Home() {
   }, []);
 
   const mapAverageScore = useMemo(() => {
-    if (mapRisks.length === 0) return null;
-    const total = mapRisks.reduce((sum, city) => sum + city.score, 0);
-    return Math.round(total / mapRisks.length);
-  }, [mapRisks]);
+    if (mapPoints.length === 0) return null;
+    const total = mapPoints.reduce((sum, city) => sum + city.score, 0);
+    return Math.round(total / mapPoints.length);
+  }, [mapPoints]);
 
   const mapHighestCity = useMemo(() => {
-    return mapRisks.length > 0 ? mapRisks[0] : null;
-  }, [mapRisks]);
+    return mapPoints.length > 0 ? mapPoints[0] : null;
+  }, [mapPoints]);
 
   const loadMapRisk = useCallback(async () => {
     setMapLoading(true);
     setMapError(null);
 
     try {
-      const settled = await Promise.allSettled(
-        mapCities.map(async (city): Promise<CityRiskPoint> => {
-          const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${city.lat}&longitude=${city.lon}&timezone=Asia%2FTokyo&current=temperature_2m,relative_humidity_2m,wind_speed_10m,precipitation`;
-          const response = await fetch(weatherUrl);
-
-          if (!response.ok) {
-            throw new Error(`failed to load ${city.name}`);
-          }
-
-          const data = (await response.json()) as {
-            current?: {
-              temperature_2m?: number;
-              relative_humidity_2m?: number;
-              wind_speed_10m?: number;
-              precipitation?: number;
-            };
-          };
-
-          const temperature = parseNumber(data.current?.temperature_2m, 12);
-          const humidity = parseNumber(data.current?.relative_humidity_2m, 50);
-          const wind = parseNumber(data.current?.wind_speed_10m, 2);
-          const precipitation = parseNumber(data.current?.precipitation, 0);
-          const risk = estimateRisk({
-            date: new Date(),
-            temperature,
-            humidity,
-            wind,
-            precipitation,
-            pm10: 24,
-            pm25: 13,
-          });
-          const adjustedScore = adjustMapRiskScore(
-            risk.score,
-            city.pollenSuitability,
-            new Date().getMonth() + 1,
-          );
-          const level = riskLevel(adjustedScore);
-
-          return {
-            ...city,
-            score: adjustedScore,
-            level,
-            temperature,
-            humidity,
-            wind,
-            precipitation,
-          };
-        }),
-      );
-
-      const succeeded = settled
-        .filter(
-          (result): result is PromiseFulfilledResult<CityRiskPoint> =>
-            result.status === "fulfilled",
-        )
-        .map((result) => result.value)
-        .sort((a, b) => b.score - a.score);
+      const response = await fetch("/api/map-risk");
 
-      if (succeeded.length === 0) {
+      if (!response.ok) {
         throw new Error("map fetch failed");
       }
 
-      setMapRisks(succeeded);
-      setMapUpdatedAt(toJstTimeString(new Date()));
+      const data = (await response.json()) as MapRiskLookup;
+
+      setMapRisks(data.cities);
+      setMapUpdatedAt(data.updatedAt);
+      // The timeline's "now" frame belongs to the previous fetch.
+      setMapPlaying(false);
+      setMapFrame(null);
+      setMapTimeline(null);
       setActiveMapCityId((prev) => {
-        if (prev && succeeded.some((city) => city.id === prev)) return prev;
-        return succeeded[0].id;
+        if (prev && data.cities.some((city) => city.id === prev)) return prev;
+        return data.cities[0].id;
       });
 
-      if (succeeded.length < mapCities.length) {
+      if (data.missing.length > 0) {
         setMapError("一部地域の取得に失敗しました。表示できた地域のみ反映しています。");
       }
     } catch {
@@ -638,35 +421,217 @@ export default function Home() {
     }
   }, []);
 
-  useEffect(() => {
+  async function openMapTimeline() {
+    if (mapTimeline && Date.now() - mapTimelineFetchedAt.current < MAP_TIMELINE_TTL_MS) {
+      setMapFrame(mapTimeline.nowIndex);
+      return;
+    }
+    setTimelineLoading(true);
     try {
-      const rawLogs = localStorage.getItem(STORAGE_LOG_KEY);
-      if (rawLogs) {
-        const parsed = JSON.parse(rawLogs) as SymptomLog[];
-        setLogs(parsed);
+      const response = await fetch("/api/map-risk/timeline");
+      if (!response.ok) {
+        throw new Error("timeline fetch failed");
       }
+      const data = (await response.json()) as MapTimeline;
+      mapTimelineFetchedAt.current = Date.now();
+      setMapTimeline(data);
+      setMapFrame(data.nowIndex);
+    } catch {
+      setMapError("花粉マップの推移を取得できませんでした。少し時間をおいて再試行してください。");
+    } finally {
+      setTimelineLoading(false);
+    }
+  }
+
+  function closeMapTimeline() {
+    setMapPlaying(false);
+    setMapFrame(null);
+  }
+
+  useEffect(() => {
+    if (!mapPlaying || !mapTimeline) return;
+    const lastFrame = mapTimeline.times.length - 1;
+    const timer = window.setInterval(() => {
+      setMapFrame((prev) => {
+        const next = (prev ?? 0) + 1;
+        if (next >= lastFrame) setMapPlaying(false);
+        return Math.min(next, lastFrame);
+      });
+    }, MAP_PLAY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [mapPlaying, mapTimeline]);
+
+  useEffect(() => {
+    try {
+      setLogs(loadSymptomLog(localStorage));
     } catch {
       setLogs([]);
     }
+    setLogsLoaded(true);
+    setTimeOfDay(defaultTimeOfDay());
 
     try {
-      const rawActions = localStorage.getItem(STORAGE_ACTION_KEY);
-      if (rawActions) {
-        const parsed = JSON.parse(rawActions) as Record<DailyActionKey, boolean>;
-        setActions({ ...defaultActionState, ...parsed });
-      }
+      setMedications(loadMedications(localStorage));
+    } catch {
+      setMedications([]);
+    }
+
+    try {
+      setActionHistory(loadActionHistory(localStorage, toJstDateString(new Date())));
     } catch {
-      setActions(defaultActionState);
+      setActionHistory({});
+    }
+
+    try {
+      setActionItems(loadActionItems(localStorage));
+    } catch {
+      setActionItems(defaultActionItems);
+    }
+
+    try {
+      const saved = loadSavedLocations(localStorage);
+      setSavedLocations(saved);
+      if (saved.length > 0) setSelectedId(saved[0].id);
+    } catch {
+      setSavedLocations([]);
+    }
+
+    try {
+      setOfflineQueue(loadOfflineLogQueue(localStorage));
+    } catch {
+      setOfflineQueue([]);
+    }
+
+    if (process.env.NODE_ENV === "production" && "serviceWorker" in navigator) {
+      void registerServiceWorker().catch(() => undefined);
     }
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_LOG_KEY, JSON.stringify(logs));
-  }, [logs]);
+    const timer = window.setInterval(() => {
+      setActionDate(toJstDateString(new Date()));
+    }, 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!logsLoaded) return;
+    saveSymptomLog(localStorage, logs);
+  }, [logsLoaded, logs]);
+
+  function importData(data: ImportedData) {
+    const result = mergeEntries(logs, data.entries);
+    setLogs(result.entries);
+    updateMedications(mergeMedications(medications, data.medications));
+    updateActionHistory(mergeActionHistory(actionHistory, data.checklistHistory));
+    updateActionItems(mergeActionItems(actionItems, data.actionItems));
+    return `${result.added}件を追加、${result.updated}件を更新しました。`;
+  }
+
+  function applySyncedData(data: LocalSyncData) {
+    setLogs(data.entries);
+    updateActionHistory(data.actionHistory);
+    updateSavedLocations(data.savedLocations);
+  }
+
+  function updateActionHistory(next: ActionHistory) {
+    setActionHistory(next);
+    saveActionHistory(localStorage, next);
+  }
+
+  function updateActionItems(next: ActionItem[]) {
+    setActionItems(next);
+    saveActionItems(localStorage, next);
+  }
+
+  function updateOfflineQueue(next: OfflineLogItem[]) {
+    setOfflineQueue(next);
+    saveOfflineLogQueue(localStorage, next);
+  }
+
+  function updateMedications(next: Medication[]) {
+    setMedications(next);
+    saveMedications(localStorage, next);
+  }
+
+  useEffect(() => {
+    if (!logsLoaded || backfillStarted.current) return;
+    backfillStarted.current = true;
+
+    const oldest = addDays(toJstDateString(new Date()), -(MAX_HISTORY_DAYS - 1));
+    const missing = logs
+      .filter((log) => !log.context && log.date >= oldest)
+      .map((log) => log.date)
+      .sort();
+    if (missing.length === 0) return;
+
+    const location = selectedLocation;
+
+    async function backfillHistory() {
+      const params = new URLSearchParams({
+        lat: String(location.lat),
+        lon: String(location.lon),
+        start: missing[0],
+        end: missing[missing.length - 1],
+      });
+      const response = await fetch(`/api/history?${params.toString()}`);
+      if (!response.ok) return;
+
+      const data = (await response.json()) as { days: HistoricalRiskDay[] };
+      const byDate = new Map(data.days.map((day) => [day.date, day]));
 
+      setLogs((prev) =>
+        prev.map((log) => {
+          const day = byDate.get(log.date);
+          if (log.context || !day) return log;
+          return { ...log, context: historyContext(day, location) };
+        }),
+      );
+    }
+
+    void backfillHistory().catch(() => undefined);
+  }, [logsLoaded, logs, selectedLocation]);
+
+  // Runs when the connection comes back or the queue changes, then on a timer;
+  // a failed request leaves its items queued for the next attempt.
   useEffect(() => {
-    localStorage.setItem(STORAGE_ACTION_KEY, JSON.stringify(actions));
-  }, [actions]);
+    if (!isOnline || !logsLoaded || offlineQueue.length === 0) return;
+
+    async function flushOfflineLogs() {
+      const resolved = new Set<string>();
+      for (const group of groupOfflineLogs(offlineQueue)) {
+        const params = new URLSearchParams({
+          lat: String(group.location.lat),
+          lon: String(group.location.lon),
+          start: group.start,
+          end: group.end,
+        });
+        const response = await fetch(`/api/history?${params.toString()}`).catch(() => null);
+        if (!response?.ok) continue;
+
+        const data = (await response.json()) as { days: HistoricalRiskDay[] };
+        const byDate = new Map(data.days.map((day) => [day.date, day]));
+        const ids = new Set(group.items.map((item) => item.id));
+        setLogs((prev) =>
+          prev.map((log) => {
+            const day = byDate.get(log.date);
+            if (!ids.has(log.id) || log.context || !day) return log;
+            return { ...log, context: historyContext(day, group.location) };
+          }),
+        );
+        for (const id of ids) resolved.add(id);
+      }
+      if (resolved.size > 0) {
+        updateOfflineQueue(offlineQueue.filter((item) => !resolved.has(item.id)));
+      }
+    }
+
+    void flushOfflineLogs().catch(() => undefined);
+    const timer = window.setInterval(() => {
+      void flushOfflineLogs().catch(() => undefined);
+    }, OFFLINE_LOG_RETRY_MS);
+    return () => window.clearInterval(timer);
+  }, [isOnline, logsLoaded, offlineQueue]);
 
   useEffect(() => {
     async function loadRisk() {
@@ -674,118 +639,206 @@ export default function Home() {
       setError(null);
 
       try {
-        const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${selectedLocation.lat}&longitude=${selectedLocation.lon}&timezone=Asia%2FTokyo&current=temperature_2m,relative_humidity_2m,wind_speed_10m,precipitation&daily=temperature_2m_max,wind_speed_10m_max,precipitation_probability_max&forecast_days=3`;
-        const airUrl = `https://air-quality-api.open-meteo.com/v1/air-quality?latitude=${selectedLocation.lat}&longitude=${selectedLocation.lon}&timezone=Asia%2FTokyo&current=pm10,pm2_5`;
-
-        const [weatherRes, airRes] = await Promise.all([
-          fetch(weatherUrl),
-          fetch(airUrl),
-        ]);
+        const params = new URLSearchParams({
+          lat: String(selectedLocation.lat),
+          lon: String(selectedLocation.lon),
+          days: String(forecastDays),
+        });
+        const response = await fetch(`/api/risk?${params.toString()}`);
 
-        if (!weatherRes.ok || !airRes.ok) {
+        if (!response.ok) {
           throw new Error("データ取得に失敗しました");
         }
 
-        const weatherData = (await weatherRes.json()) as {
-          current?: {
-            temperature_2m?: number;
-            relative_humidity_2m?: number;
-            wind_speed_10m?: number;
-            precipitation?: number;
-          };
-          daily?: {
-            time?: string[];
-            temperature_2m_max?: number[];
-            wind_speed_10m_max?: number[];
-            precipitation_probability_max?: number[];
-          };
-        };
-
-        const airData = (await airRes.json()) as {
-          current?: {
-            pm10?: number;
-            pm2_5?: number;
-          };
-        };
-
-        const snapshot: WeatherSnapshot = {
-          temperature: parseNumber(weatherData.current?.temperature_2m, 12),
-          humidity: parseNumber(weatherData.current?.relative_humidity_2m, 50),
-          wind: parseNumber(weatherData.current?.wind_speed_10m, 2),
-          precipitation: parseNumber(weatherData.current?.precipitation, 0),
-          pm10: parseNumber(airData.current?.pm10, 20),
-          pm25: parseNumber(airData.current?.pm2_5, 10),
-        };
-
-        setWeather(snapshot);
-        setTodayRisk(
-          estimateRisk({
-            date: new Date(),
-            temperature: snapshot.temperature,
-            humidity: snapshot.humidity,
-            wind: snapshot.wind,
-            precipitation: snapshot.precipitation,
-            pm10: snapshot.pm10,
-            pm25: snapshot.pm25,
-          }),
-        );
-
-        const times = weatherData.daily?.time ?? [];
-        const maxTemps = weatherData.daily?.temperature_2m_max ?? [];
-        const maxWinds = weatherData.daily?.wind_speed_10m_max ?? [];
-        const precipProb = weatherData.daily?.precipitation_probability_max ?? [];
-
-        const forecastData: ForecastDay[] = times.map((date, index) => {
-          const result = estimateRisk({
-            date: new Date(date),
-            temperature: parseNumber(maxTemps[index], snapshot.temperature),
-            humidity: snapshot.humidity,
-            wind: parseNumber(maxWinds[index], snapshot.wind),
-            precipitation: parseNumber(precipProb[index], 0) >= 40 ? 1 : 0,
-            pm10: snapshot.pm10,
-            pm25: snapshot.pm25,
-          });
-          return {
-            date,
-            score: result.score,
-            level: result.level,
-          };
-        });
+        const data = (await response.json()) as RiskLookup;
 
-        setForecast(forecastData);
+        setRiskCachedAt(response.headers.get(CACHED_AT_HEADER));
+        setWeather(data.weather);
+        setTodayRisk(data.risk);
+        setForecast(data.forecast);
+        setHourly(data.hourly);
+        setBestWindows(data.bestWindows);
+        setPollenTypeStatus(data.pollenTypes);
       } catch {
-        setError("気象データの取得に失敗しました。少し時間をおいて再試行してください。");
+        setError(
+          navigator.onLine
+            ? "気象データの取得に失敗しました。少し時間をおいて再試行してください。"
+            : "オフラインのため気象データを取得できません。一度表示した地域は前回のデータを表示します。",
+        );
       } finally {
         setIsLoading(false);
       }
     }
 
     void loadRisk();
-  }, [selectedLocation]);
+  }, [selectedLocation, forecastDays]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadSavedRisks() {
+      const results = await Promise.all(
+        savedLocations.map(async (location) => {
+          try {
+            const params = new URLSearchParams({
+              lat: String(location.lat),
+              lon: String(location.lon),
+              days: "1",
+            });
+            const response = await fetch(`/api/risk?${params.toString()}`);
+            if (!response.ok) throw new Error("データ取得に失敗しました");
+            const data = (await response.json()) as RiskLookup;
+            return [location.id, data.risk] as const;
+          } catch {
+            return [location.id, null] as const;
+          }
+        }),
+      );
+      if (!cancelled) setSavedRisks(Object.fromEntries(results));
+    }
+
+    void loadSavedRisks();
+    return () => {
+      cancelled = true;
+    };
+  }, [savedLocations]);
 
   useEffect(() => {
     void loadMapRisk();
   }, [loadMapRisk]);
 
-  function toggleAction(key: DailyActionKey) {
-    setActions((prev) => ({ ...prev, [key]: !prev[key] }));
+  async function nameCurrentLocation(location: LocationOption) {
+    try {
+      const params = new URLSearchParams({
+        lat: String(location.lat),
+        lon: String(location.lon),
+      });
+      const response = await fetch(`/api/geocode/reverse?${params.toString()}`);
+      if (!response.ok) return;
+      const data = (await response.json()) as { result: GeocodeResult | null };
+      if (!data.result) return;
+      const name = `現在地（${data.result.name}）`;
+      setCustomLocation((prev) => (prev?.id === location.id ? { ...prev, name } : prev));
+    } catch {
+      // The unnamed "現在地" entry is still usable without a municipality name.
+    }
+  }
+
+  function pickSearchResult(result: GeocodeResult) {
+    const location: LocationOption = {
+      id: "search-result",
+      name: result.prefecture ? `${result.name}（${result.prefecture}）` : result.name,
+      lat: result.lat,
+      lon: result.lon,
+    };
+    setCustomLocation(location);
+    setSelectedId(location.id);
+  }
+
+  function updateSavedLocations(next: LocationOption[]) {
+    setSavedLocations(next);
+    saveSavedLocations(localStorage, next);
+  }
+
+  function saveCurrentLocation(name: string) {
+    const location = createSavedLocation(name, selectedLocation.lat, selectedLocation.lon);
+    updateSavedLocations([...savedLocations, location]);
+    setSelectedId(location.id);
+  }
+
+  function removeSavedLocation(location: LocationOption) {
+    if (!window.confirm(`${location.name} を保存した地点から削除しますか？`)) return;
+    updateSavedLocations(savedLocations.filter((item) => item.id !== location.id));
+    if (selectedId === location.id) setSelectedId(defaultLocations[0].id);
+  }
+
+  function toggleAction(key: string) {
+    updateActionHistory({ ...actionHistory, [actionDate]: { ...actions, [key]: !actions[key] } });
+  }
+
+  function resetLogForm() {
+    setEditingId(null);
+    setSymptomSeverity(4);
+    setSymptomScores(emptySymptoms);
+    setTookMedicine(false);
+    setIntakeTimes({});
+    setMemo("");
+  }
+
+  function toggleIntake(medicationId: string) {
+    setIntakeTimes((prev) => {
+      if (!(medicationId in prev)) {
+        return { ...prev, [medicationId]: toJstTimeString(new Date()) };
+      }
+      return Object.fromEntries(Object.entries(prev).filter(([id]) => id !== medicationId));
+    });
   }
 
   function submitLog(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    const today = toJstDateString(new Date());
-    const item: SymptomLog = {
-      date: today,
+    const editing = logs.find((entry) => entry.id === editingId);
+    const date = editing?.date ?? toJstDateString(new Date());
+    const slot = editing?.timeOfDay ?? timeOfDay;
+    const existing = logs.find((entry) => entry.id === entryId(date, slot));
+    // Offline, the dashboard may be showing an old cached risk, so the context is
+    // left for the queue to fill in from fresh data once the connection returns.
+    const offline = !navigator.onLine;
+    const captured =
+      todayContext && !offline
+        ? {
+            ...todayContext,
+            location: selectedLocation,
+            topPollenTypes: topPollenTypeIds(todayContext.pollenTypes),
+            capturedBy: "save" as const,
+          }
+        : undefined;
+
+    const intakes = Object.entries(intakeTimes).map(([medicationId, takenAt]) => ({
+      medicationId,
+      takenAt,
+    }));
+
+    const item: SymptomEntry = {
+      id: entryId(date, slot),
+      date,
+      timeOfDay: slot,
       severity: symptomSeverity,
-      tookMedicine,
+      symptoms: { ...symptomScores },
+      tookMedicine: tookMedicine || intakes.length > 0,
+      medications: intakes.length > 0 ? intakes : undefined,
       memo: memo.trim(),
+      context: editing ? editing.context : (captured ?? existing?.context),
+      updatedAt: new Date().toISOString(),
     };
 
-    setLogs((prev) => {
-      const filtered = prev.filter((entry) => entry.date !== today);
-      return [item, ...filtered].slice(0, 30);
-    });
-    setMemo("");
+    setLogs((prev) => upsertEntry(prev, item));
+    if (offline && !item.context) {
+      updateOfflineQueue([
+        ...offlineQueue.filter((queued) => queued.id !== item.id),
+        { id: item.id, date: item.date, location: selectedLocation },
+      ]);
+    }
+    resetLogForm();
+  }
+
+  function startEditLog(entry: SymptomEntry) {
+    setEditingId(entry.id);
+    setSymptomSeverity(entry.severity);
+    setSymptomScores(entry.symptoms ?? emptySymptoms);
+    setTookMedicine(entry.tookMedicine);
+    setIntakeTimes(
+      Object.fromEntries(
+        (entry.medications ?? []).map((intake) => [intake.medicationId, intake.takenAt]),
+      ),
+    );
+    setMemo(entry.memo);
+  }
+
+  function deleteLog(entry: SymptomEntry) {
+    const label = `${entry.date} ${timeOfDayLabels[entry.timeOfDay]}`;
+    if (!window.confirm(`${label} のログを削除しますか？`)) return;
+    setLogs((prev) => prev.filter((item) => item.id !== entry.id));
+    if (editingId === entry.id) resetLogForm();
   }
 
   function currentTip() {
@@ -859,6 +912,11 @@ export default function Home() {
                       スコア {todayRisk.score}
                     </span>
                   ) : null}
+                  {riskCachedAt ? (
+                    <span className="ml-2 mt-2 inline-flex rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800">
+                      {cachedAtLabel(riskCachedAt)} 時点
+                    </span>
+                  ) : null}
                 </div>
               </div>
               <p className="mt-4 text-sm leading-7 text-slate-700">{currentTip()}</p>
@@ -925,6 +983,7 @@ export default function Home() {
                       setCustomLocation(gpsLocation);
                       setSelectedId(gpsLocation.id);
                       setGeoLoading(false);
+                      void nameCurrentLocation(gpsLocation);
                     },
                     () => {
                       setGeoLoading(false);
@@ -941,8 +1000,32 @@ export default function Home() {
               </button>
             </div>
 
+            <LocationSearch onPick={pickSearchResult} />
+
             {error ? <p className="mt-4 text-sm text-rose-700">{error}</p> : null}
 
+            <SavedLocationCards
+              locations={savedLocations}
+              risks={savedRisks}
+              selectedId={selectedLocation.id}
+              currentName={selectedLocation.name}
+              onSelect={setSelectedId}
+              onSave={saveCurrentLocation}
+              onMove={(id, offset) =>
+                updateSavedLocations(moveSavedLocation(savedLocations, id, offset))
+              }
+              onRemove={removeSavedLocation}
+            />
+
+            <div className="mt-4 rounded-xl border border-slate-200 bg-white/75 p-3">
+              <p className="text-xs font-semibold tracking-[0.12em] text-slate-600">
+                毎朝のリスク通知
+              </p>
+              <AlertSettingsPanel
+                locations={savedLocations.length > 0 ? savedLocations : [selectedLocation]}
+              />
+            </div>
+
             <div className="mt-6 grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
               <div className="metric-card">
                 <p className="metric-label">気温</p>
@@ -1009,12 +1092,57 @@ export default function Home() {
                 <p className="font-heading mt-1 text-3xl font-extrabold text-slate-900">
                   {todayRisk?.level ?? "計算中"}
                 </p>
+                {todayRisk ? (
+                  <span
+                    className={`mt-2 inline-flex rounded-full px-2 py-1 text-xs font-semibold ${sourceChipClass(todayRisk.source)}`}
+                  >
+                    {sourceLabel(todayRisk.source)}
+                  </span>
+                ) : null}
+                {riskCachedAt ? (
+                  <span className="ml-2 mt-2 inline-flex rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800">
+                    {cachedAtLabel(riskCachedAt)} 時点
+                  </span>
+                ) : null}
               </div>
             </div>
             <p className="mt-4 text-sm leading-7 text-slate-700">
               {todayRisk?.advice ?? "気象データを取得しています。"}
             </p>
             <p className="mt-3 text-xs text-slate-500">補足: {currentTip()}</p>
+            <PersonalRiskCard
+              model={calibrationModel}
+              personal={personal}
+              sampleCount={calibrationSamples.length}
+            />
+            {todayRisk ? (
+              <div className="mt-4 rounded-xl border border-slate-200 bg-white/80 p-3">
+                <p className="text-xs font-semibold tracking-[0.12em] text-slate-500">
+                  スコア内訳
+                </p>
+                <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-slate-700">
+                  {riskFactorItems.map((factor) => {
+                    const value = todayRisk.breakdown[factor.key];
+                    return (
+                      <div key={factor.key} className="flex items-center justify-between">
+                        <dt>{factor.label}</dt>
+                        <dd
+                          className={`font-semibold ${
+                            value > 0
+                              ? "text-rose-700"
+                              : value < 0
+                                ? "text-emerald-700"
+                                : "text-slate-500"
+                          }`}
+                        >
+                          {value > 0 ? `+${value}` : value}
+                        </dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              </div>
+            ) : null}
             {isLoading ? (
               <p className="mt-4 text-xs font-semibold text-teal-700">
                 最新データを取得しています...
@@ -1028,13 +1156,29 @@ export default function Home() {
             className="panel-card reveal rounded-[1.65rem] p-6"
             style={{ animationDelay: "160ms" }}
           >
-            <h2 className="font-heading text-2xl font-bold text-slate-900">
-              3日先までのリスク予測
-            </h2>
-            <p className="mt-2 text-sm text-slate-600">
-              天気変化をもとに、近い将来の悪化タイミングを確認できます。
-            </p>
-            <div className="mt-4 grid gap-3 sm:grid-cols-3">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="font-heading text-2xl font-bold text-slate-900">
+                  {forecastDays}日間のリスク予測
+                </h2>
+                <p className="mt-2 text-sm text-slate-600">
+                  日ごとの気温・湿度・降水・風をもとに、悪化しやすい日を確認できます。
+                </p>
+              </div>
+              <select
+                aria-label="予報日数"
+                className="soft-field rounded-xl px-3 py-2 text-sm text-slate-900 outline-none"
+                value={forecastDays}
+                onChange={(event) => setForecastDays(parseInt(event.target.value, 10))}
+              >
+                {forecastDayOptions.map((days) => (
+                  <option key={days} value={days}>
+                    {days}日間
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="mt-4 grid max-h-[520px] gap-3 overflow-y-auto pr-1 sm:grid-cols-2 xl:grid-cols-3">
               {forecast.map((day) => (
                 <div
                   key={day.date}
@@ -1051,6 +1195,24 @@ export default function Home() {
                   >
                     {day.level}
                   </p>
+                  <p className="mt-2 text-[11px] leading-5 text-slate-600">
+                    {day.temperature.toFixed(0)}°C / 湿度 {Math.round(day.humidity)}%
+                    <br />
+                    降水 {day.precipitationProbability}%（{day.precipitation.toFixed(1)} mm）
+                    <br />
+                    {windDirectionLabel(day.windDirection)}の風 {day.wind.toFixed(1)} m/s
+                  </p>
+                  <div className="mt-2">
+                    <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-200">
+                      <div
+                        className="h-full rounded-full bg-cyan-500"
+                        style={{ width: `${Math.round(day.confidence * 100)}%` }}
+                      />
+                    </div>
+                    <p className="mt-1 text-[10px] font-semibold text-slate-500">
+                      予報の信頼度: {confidenceLabel(day.confidence)}
+                    </p>
+                  </div>
                 </div>
               ))}
             </div>
@@ -1066,31 +1228,118 @@ export default function Home() {
             <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-slate-200">
               <div
                 className="h-full rounded-full bg-gradient-to-r from-teal-500 to-cyan-500 transition-[width] duration-500"
-                style={{ width: `${completionRate}%` }}
+                style={{ width: `${actionCompletion}%` }}
               />
             </div>
             <p className="mt-2 text-sm text-slate-700">
-              実施率 <strong>{completionRate}%</strong>
+              実施率 <strong>{actionCompletion}%</strong>
             </p>
             <div className="mt-4 space-y-2">
-              {actionItems.map((item) => (
+              {prioritizedActions.map((item) => (
                 <label
                   key={item.key}
-                  className="flex cursor-pointer items-center gap-3 rounded-xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-800 transition hover:border-teal-300"
+                  className={`flex cursor-pointer items-center gap-3 rounded-xl border bg-white/80 px-3 py-2 text-sm text-slate-800 transition hover:border-teal-300 ${
+                    item.required ? "border-rose-300" : "border-slate-200"
+                  }`}
                 >
                   <input
                     type="checkbox"
-                    checked={actions[item.key]}
+                    checked={actions[item.key] ?? false}
                     onChange={() => toggleAction(item.key)}
                     className="h-4 w-4 accent-teal-600"
                   />
-                  {item.label}
+                  <span className="flex-1">{item.label}</span>
+                  {item.required ? (
+                    <span className="rounded-full bg-rose-100 px-2 py-0.5 text-[10px] font-semibold text-rose-700">
+                      必須
+                    </span>
+                  ) : item.recommended ? (
+                    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-semibold text-amber-700">
+                      おすすめ
+                    </span>
+                  ) : null}
                 </label>
               ))}
             </div>
+            <ActionItemEditor items={actionItems} onChange={updateActionItems} />
+
+            <div className="mt-4 flex gap-1">
+              {recentActionDays.map((day) => (
+                <div key={day.date} className="flex-1 text-center">
+                  <div className="flex h-10 items-end rounded-md bg-slate-100">
+                    <span
+                      className="block w-full rounded-md bg-teal-500"
+                      style={{ height: `${day.rate ?? 0}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-[10px] font-semibold text-slate-500">
+                    {day.date.slice(5).replace("-", "/")}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-4 rounded-xl border border-slate-200 bg-white/80 p-3">
+              <p className="text-xs font-semibold tracking-[0.12em] text-slate-600">
+                対策ごとのつらさ平均（実施日 / 未実施日）
+              </p>
+              <ul className="mt-2 space-y-1 text-xs text-slate-700">
+                {effects.map((effect) => (
+                  <li key={effect.key} className="flex items-center justify-between gap-2">
+                    <span>{effect.label}</span>
+                    <span className="whitespace-nowrap">
+                      <strong
+                        className={
+                          effect.doneAverage !== null &&
+                          effect.skippedAverage !== null &&
+                          effect.doneAverage < effect.skippedAverage
+                            ? "text-teal-700"
+                            : "text-slate-900"
+                        }
+                      >
+                        {effect.doneAverage ?? "--"}
+                      </strong>{" "}
+                      / {effect.skippedAverage ?? "--"}
+                      <span className="ml-1 text-slate-500">
+                        （{effect.doneDays}日 / {effect.skippedDays}日）
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-[11px] text-slate-500">
+                チェックと症状ログの両方がある日で集計しています。
+              </p>
+            </div>
           </div>
         </section>
 
+        <section
+          className="panel-card reveal rounded-[1.65rem] p-6"
+          style={{ animationDelay: "210ms" }}
+        >
+          <h2 className="font-heading text-2xl font-bold text-slate-900">
+            48時間のリスク推移
+          </h2>
+          <p className="mt-2 text-sm text-slate-600">
+            花粉は朝と夕方に増えやすい傾向があります。色付きの時間帯が洗濯物の外干しや外出に向いた時間です。
+          </p>
+          <HourlyRiskChart hours={hourly} windows={bestWindows} />
+        </section>
+
+        <section
+          className="panel-card reveal rounded-[1.65rem] p-6"
+          style={{ animationDelay: "220ms" }}
+        >
+          <h2 className="font-heading text-2xl font-bold text-slate-900">
+            通勤・通学ルートの花粉曝露
+          </h2>
+          <p className="mt-2 text-sm text-slate-600">
+            自宅 → 駅 → 職場のように地点と時刻を入れると、経路上で浴びる花粉リスクの合計と、いちばん少なく済む出発時刻を計算します。
+          </p>
+          <RoutePlanner locations={options} />
+        </section>
+
         <section className="grid gap-6 lg:grid-cols-[1.1fr_1.5fr]">
           <div
             className="panel-card reveal rounded-[1.65rem] p-6"
@@ -1112,6 +1361,11 @@ export default function Home() {
                     <p className="text-lg font-bold text-slate-900">{type.name}</p>
                     <div className="flex items-center gap-2">
                       <p className="text-sm font-black text-slate-900">{type.score}</p>
+                      <span
+                        className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${sourceChipClass(type.source)}`}
+                      >
+                        {sourceLabel(type.source)}
+                      </span>
                       <span
                         className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${levelChipClass(type.level)}`}
                       >
@@ -1152,10 +1406,10 @@ export default function Home() {
             <div className="flex flex-wrap items-center justify-between gap-3">
               <div>
                 <h2 className="font-heading text-2xl font-bold text-slate-900">
-                  花粉マップ（主要都市）
+                  花粉マップ（全国47都道府県）
                 </h2>
                 <p className="mt-1 text-sm text-slate-600">
-                  地域係数を加味した推定リスク分布
+                  県庁所在地などの推定リスクと、その間を補間したヒートマップ
                   {mapUpdatedAt ? `・最終更新 ${mapUpdatedAt} JST` : ""}
                 </p>
               </div>
@@ -1188,62 +1442,104 @@ export default function Home() {
                 <span className="h-2 w-2 rounded-full bg-rose-500" />
                 非常に高い
               </span>
+              <div
+                className="ml-auto inline-flex overflow-hidden rounded-full border border-slate-200 bg-white/80"
+                role="group"
+                aria-label="マップの表示方法"
+              >
+                {mapLayerOptions.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setMapLayer(option.id)}
+                    aria-pressed={mapLayer === option.id}
+                    className={`px-3 py-1 transition ${
+                      mapLayer === option.id
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
             </div>
 
             <div className="mt-4 rounded-2xl border border-slate-200 bg-white/65 p-3">
-              <div className="relative h-[420px] overflow-hidden rounded-xl bg-[radial-gradient(circle_at_22%_20%,rgba(103,232,249,0.35),transparent_38%),linear-gradient(180deg,#dbeafe_0%,#cffafe_53%,#d1fae5_100%)]">
-                <svg
-                  className="absolute inset-0 h-full w-full"
-                  viewBox="0 0 100 100"
-                  preserveAspectRatio="none"
-                  aria-hidden
-                >
-                  {mapGuides.map((line, index) => {
-                    const points = line
-                      .map((point) => {
-                        const pos = geoToPercent(point.lat, point.lon);
-                        return `${pos.x},${pos.y}`;
-                      })
-                      .join(" ");
+              <PollenMap
+                points={mapPoints}
+                layer={mapLayer}
+                activeCityId={activeMapCityId}
+                onSelectCity={setActiveMapCityId}
+              />
+            </div>
 
-                    return (
-                      <polyline
-                        key={`guide-${index}`}
-                        points={points}
-                        fill="none"
-                        stroke="rgba(15, 23, 42, 0.3)"
-                        strokeWidth={index === 0 ? 1.2 : 0.82}
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    );
-                  })}
-                </svg>
-
-                {mapRisks.map((city) => {
-                  const pos = geoToPercent(city.lat, city.lon);
-                  const active = city.id === activeMapCityId;
-
-                  return (
-                    <button
-                      key={city.id}
-                      type="button"
-                      className="absolute -translate-x-1/2 -translate-y-1/2 text-left"
-                      style={{ left: `${pos.x}%`, top: `${pos.y}%` }}
-                      onClick={() => setActiveMapCityId(city.id)}
-                      title={`${city.name}: ${city.score}`}
-                    >
-                      <span
-                        className={`block h-3.5 w-3.5 rounded-full ${levelDotClass(city.level)} transition ${active ? "ring-4 ring-slate-300" : "ring-2 ring-white"}`}
-                      />
-                      <span className="mt-1 block rounded bg-white/90 px-1.5 py-0.5 text-[10px] font-semibold text-slate-700 shadow-sm">
-                        {city.name}
-                      </span>
-                    </button>
-                  );
-                })}
+            {mapTimeline && mapFrame !== null ? (
+              <div className="mt-3 rounded-xl border border-slate-200 bg-white/80 p-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <button
+                    type="button"
+                    className="action-btn action-btn-dark !py-1.5"
+                    onClick={() => {
+                      if (!mapPlaying && mapFrame >= mapTimeline.times.length - 1) setMapFrame(0);
+                      setMapPlaying(!mapPlaying);
+                    }}
+                  >
+                    {mapPlaying ? "停止" : "再生"}
+                  </button>
+                  <p className="font-semibold text-slate-900">
+                    {timelineLabel(mapTimeline.times[mapFrame])}
+                  </p>
+                  <span
+                    className={`inline-flex rounded-full px-2 py-0.5 text-xs font-semibold ${
+                      mapFrame > mapTimeline.nowIndex
+                        ? "bg-sky-100 text-sky-700"
+                        : "bg-slate-100 text-slate-600"
+                    }`}
+                  >
+                    {mapFrame > mapTimeline.nowIndex
+                      ? "予報"
+                      : mapFrame === mapTimeline.nowIndex
+                        ? "現在"
+                        : "過去"}
+                  </span>
+                  <button
+                    type="button"
+                    className="ml-auto text-xs font-semibold text-teal-700 hover:underline"
+                    onClick={closeMapTimeline}
+                  >
+                    現在の実況に戻る
+                  </button>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={mapTimeline.times.length - 1}
+                  value={mapFrame}
+                  onChange={(event) => {
+                    setMapPlaying(false);
+                    setMapFrame(Number(event.target.value));
+                  }}
+                  aria-label="表示する日時"
+                  className="mt-2 w-full accent-teal-600"
+                />
+                <div className="flex justify-between text-[10px] font-semibold text-slate-500">
+                  <span>{timelineLabel(mapTimeline.times[0])}</span>
+                  <span>{timelineLabel(mapTimeline.times[mapTimeline.times.length - 1])}</span>
+                </div>
               </div>
-            </div>
+            ) : (
+              <button
+                type="button"
+                className="mt-3 text-xs font-semibold text-teal-700 hover:underline disabled:opacity-50"
+                onClick={() => {
+                  void openMapTimeline();
+                }}
+                disabled={timelineLoading || mapRisks.length === 0}
+              >
+                {timelineLoading ? "推移を取得中..." : "過去7日〜3日先の推移を見る"}
+              </button>
+            )}
 
             {mapError ? <p className="mt-3 text-sm text-rose-700">{mapError}</p> : null}
 
@@ -1271,23 +1567,36 @@ export default function Home() {
                       {activeMapCity.level}
                     </span>
                   </div>
-                  <p className="mt-2 text-sm text-slate-700">
-                    気温 {activeMapCity.temperature.toFixed(1)}°C / 湿度{" "}
-                    {Math.round(activeMapCity.humidity)}% / 風速{" "}
-                    {activeMapCity.wind.toFixed(1)} m/s / 降水{" "}
-                    {activeMapCity.precipitation.toFixed(1)} mm
-                  </p>
+                  {mapTimeline && mapFrame !== null ? (
+                    <p className="mt-2 text-sm text-slate-700">
+                      {timelineLabel(mapTimeline.times[mapFrame])} 時点の推定スコア{" "}
+                      {activeMapCity.score}
+                    </p>
+                  ) : (
+                    <>
+                      <p className="mt-2 text-sm text-slate-700">
+                        気温 {activeMapCity.temperature.toFixed(1)}°C / 湿度{" "}
+                        {Math.round(activeMapCity.humidity)}% / 風速{" "}
+                        {activeMapCity.wind.toFixed(1)} m/s / 降水{" "}
+                        {activeMapCity.precipitation.toFixed(1)} mm
+                      </p>
+                      <p className="mt-1 text-sm text-slate-700">
+                        PM2.5 {Math.round(activeMapCity.pm25)} µg/m³ / PM10{" "}
+                        {Math.round(activeMapCity.pm10)} µg/m³
+                      </p>
+                    </>
+                  )}
                 </div>
               ) : null}
             </div>
 
-            <div className="mt-4 grid gap-2 sm:grid-cols-2">
-              {mapRisks.map((city) => (
+            <div className="mt-4 grid max-h-72 gap-2 overflow-y-auto pr-1 sm:grid-cols-3">
+              {mapPoints.map((city) => (
                 <button
                   key={`list-${city.id}`}
                   type="button"
                   onClick={() => setActiveMapCityId(city.id)}
-                  className={`flex items-center justify-between rounded-xl border px-3 py-2 text-left text-sm transition ${
+                  className={`flex items-center justify-between rounded-xl border px-3 py-1.5 text-left text-sm transition ${
                     city.id === activeMapCityId
                       ? "border-cyan-300 bg-cyan-50"
                       : "border-slate-200 bg-white/75 hover:border-slate-300"
@@ -1314,12 +1623,60 @@ export default function Home() {
               症状ログ
             </h2>
             <p className="mt-2 text-sm text-slate-600">
-              1日1回の記録で、症状変動と対策の効き方を見える化できます。
+              朝と夜の記録で、症状変動と対策の効き方を見える化できます。
             </p>
+            {!isOnline || offlineQueue.length > 0 ? (
+              <p className="mt-3 rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
+                {isOnline
+                  ? `オフライン中の記録 ${offlineQueue.length}件に気象情報を補完しています...`
+                  : `オフラインです。記録はこの端末に保存され、接続が戻ったら気象情報を補完します${
+                      offlineQueue.length > 0 ? `（待機中 ${offlineQueue.length}件）` : ""
+                    }。`}
+              </p>
+            ) : null}
+            {editingEntry ? (
+              <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                <span>
+                  編集中: {editingEntry.date} {timeOfDayLabels[editingEntry.timeOfDay]}
+                </span>
+                <button
+                  type="button"
+                  className="text-xs font-semibold underline"
+                  onClick={resetLogForm}
+                >
+                  編集をやめる
+                </button>
+              </div>
+            ) : null}
             <form className="mt-4 space-y-4" onSubmit={submitLog}>
+              {editingEntry ? null : (
+                <div className="flex gap-2">
+                  {(Object.keys(timeOfDayLabels) as TimeOfDay[]).map((slot) => (
+                    <label
+                      key={slot}
+                      className={`flex cursor-pointer items-center gap-2 rounded-xl border px-3 py-2 text-sm transition ${
+                        timeOfDay === slot
+                          ? "border-teal-300 bg-teal-50 text-teal-800"
+                          : "border-slate-200 bg-white/75 text-slate-700"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="timeOfDay"
+                        value={slot}
+                        checked={timeOfDay === slot}
+                        onChange={() => setTimeOfDay(slot)}
+                        className="accent-teal-600"
+                      />
+                      {timeOfDayLabels[slot]}の記録
+                    </label>
+                  ))}
+                </div>
+              )}
+
               <div>
                 <label className="mb-2 block text-xs font-semibold tracking-[0.12em] text-slate-600">
-                  今日のつらさ (0-10)
+                  全体のつらさ (0-10)
                 </label>
                 <input
                   type="range"
@@ -1337,15 +1694,81 @@ export default function Home() {
                 </p>
               </div>
 
-              <label className="flex items-center gap-3 rounded-xl border border-slate-200 bg-white/75 px-3 py-2 text-sm text-slate-700">
-                <input
-                  type="checkbox"
-                  checked={tookMedicine}
-                  onChange={(event) => setTookMedicine(event.target.checked)}
-                  className="h-4 w-4 accent-teal-600"
-                />
-                今日は服薬した
-              </label>
+              <div className="grid gap-3 rounded-xl border border-slate-200 bg-white/75 p-3 sm:grid-cols-2">
+                {symptomItems.map((item) => (
+                  <div key={item.key}>
+                    <label className="flex items-center justify-between text-xs font-semibold text-slate-600">
+                      {item.label}
+                      <span className="text-slate-800">{symptomScores[item.key]}</span>
+                    </label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={10}
+                      step={1}
+                      value={symptomScores[item.key]}
+                      onChange={(event) =>
+                        setSymptomScores((prev) => ({
+                          ...prev,
+                          [item.key]: parseInt(event.target.value, 10),
+                        }))
+                      }
+                      className="w-full accent-teal-600"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {medications.length > 0 ? (
+                <div className="space-y-2 rounded-xl border border-slate-200 bg-white/75 px-3 py-2">
+                  <p className="text-xs font-semibold tracking-[0.12em] text-slate-600">
+                    服用した薬
+                  </p>
+                  {medications.map((medication) => (
+                    <div
+                      key={medication.id}
+                      className="flex items-center justify-between gap-3 text-sm text-slate-700"
+                    >
+                      <label className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={medication.id in intakeTimes}
+                          onChange={() => toggleIntake(medication.id)}
+                          className="h-4 w-4 accent-teal-600"
+                        />
+                        {medication.name}
+                        {medication.dose ? (
+                          <span className="text-xs text-slate-500">{medication.dose}</span>
+                        ) : null}
+                      </label>
+                      {medication.id in intakeTimes ? (
+                        <input
+                          type="time"
+                          value={intakeTimes[medication.id]}
+                          onChange={(event) =>
+                            setIntakeTimes((prev) => ({
+                              ...prev,
+                              [medication.id]: event.target.value,
+                            }))
+                          }
+                          aria-label={`${medication.name} の服用時刻`}
+                          className="soft-field rounded-lg px-2 py-1 text-xs text-slate-900 outline-none"
+                        />
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <label className="flex items-center gap-3 rounded-xl border border-slate-200 bg-white/75 px-3 py-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={tookMedicine}
+                    onChange={(event) => setTookMedicine(event.target.checked)}
+                    className="h-4 w-4 accent-teal-600"
+                  />
+                  服薬した
+                </label>
+              )}
 
               <div>
                 <label
@@ -1364,7 +1787,7 @@ export default function Home() {
               </div>
 
               <button type="submit" className="action-btn action-btn-dark">
-                今日のログを保存
+                {editingEntry ? "変更を保存" : `今日の${timeOfDayLabels[timeOfDay]}のログを保存`}
               </button>
             </form>
           </div>
@@ -1391,24 +1814,120 @@ export default function Home() {
                       : `${trend}（改善傾向）`}
                 </strong>
               </p>
+              <p className="mt-2">
+                服薬日 / 非服薬日の平均:{" "}
+                <strong>
+                  {medicationEffect.medicatedAverage ?? "--"} /{" "}
+                  {medicationEffect.unmedicatedAverage ?? "--"}
+                </strong>
+                <span className="ml-1 text-xs text-slate-500">
+                  （{medicationEffect.medicatedDays}日 / {medicationEffect.unmedicatedDays}日）
+                </span>
+              </p>
+              {adherence.length > 0 ? (
+                <div className="mt-2">
+                  <p>
+                    服薬遵守率（直近{ADHERENCE_WINDOW_DAYS}日）:{" "}
+                    <strong>{overallAdherence !== null ? `${overallAdherence}%` : "--"}</strong>
+                  </p>
+                  <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                    {adherence.map((item) => (
+                      <li key={item.medication.id}>
+                        {item.medication.name}: {item.rate !== null ? `${item.rate}%` : "--"}（
+                        {item.taken}/{item.expected}回）
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
             </div>
 
+            <MedicationRegistry medications={medications} onChange={updateMedications} />
+            <Link
+              href="/report"
+              className="action-btn action-btn-accent mt-4 inline-flex !py-2"
+            >
+              受診用レポートを作成
+            </Link>
+            <DataTransferPanel
+              entries={logs}
+              checklistHistory={actionHistory}
+              actionItems={actionItems}
+              medications={medications}
+              onImport={importData}
+            />
+            <SyncPanel data={syncData} onApply={applySyncedData} />
+
             <div className="mt-4 space-y-2">
               {logs.length === 0 ? (
                 <p className="rounded-xl border border-slate-200 bg-white/75 px-3 py-4 text-sm text-slate-500">
                   ログがまだありません。今日の状態を記録してみてください。
                 </p>
               ) : (
-                logs.slice(0, 7).map((log) => (
+                logs.slice(0, visibleLogCount).map((log) => (
                   <article
-                    key={log.date}
-                    className="rounded-xl border border-slate-200 bg-white/80 p-3"
+                    key={log.id}
+                    className={`rounded-xl border bg-white/80 p-3 ${
+                      log.id === editingId ? "border-amber-300" : "border-slate-200"
+                    }`}
                   >
-                    <p className="text-xs font-semibold text-slate-500">{log.date}</p>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs font-semibold text-slate-500">
+                        {log.date} {timeOfDayLabels[log.timeOfDay]}
+                      </p>
+                      <div className="flex gap-3 text-xs font-semibold">
+                        <button
+                          type="button"
+                          className="text-teal-700 hover:underline"
+                          onClick={() => startEditLog(log)}
+                        >
+                          編集
+                        </button>
+                        <button
+                          type="button"
+                          className="text-rose-700 hover:underline"
+                          onClick={() => deleteLog(log)}
+                        >
+                          削除
+                        </button>
+                      </div>
+                    </div>
                     <p className="mt-1 text-sm text-slate-800">
                       つらさ: <strong>{log.severity}</strong> / 10 ・ 服薬:{" "}
-                      <strong>{log.tookMedicine ? "あり" : "なし"}</strong>
+                      <strong>{tookAnyMedicine(log) ? "あり" : "なし"}</strong>
                     </p>
+                    {log.medications && log.medications.length > 0 ? (
+                      <p className="mt-1 text-xs text-slate-600">
+                        {log.medications
+                          .map((intake) => {
+                            const name =
+                              medications.find((item) => item.id === intake.medicationId)?.name ??
+                              "登録解除した薬";
+                            return `${name} ${intake.takenAt}`;
+                          })
+                          .join(" / ")}
+                      </p>
+                    ) : null}
+                    {log.symptoms ? (
+                      <p className="mt-1 text-xs text-slate-600">
+                        {symptomItems
+                          .map((item) => `${item.label} ${log.symptoms?.[item.key] ?? 0}`)
+                          .join(" / ")}
+                      </p>
+                    ) : null}
+                    {log.context ? (
+                      <p className="mt-1 text-xs leading-6 text-slate-600">
+                        <span
+                          className={`mr-1 inline-flex rounded-full px-1.5 py-0.5 text-[10px] font-semibold ${levelChipClass(log.context.risk.level)}`}
+                        >
+                          リスク {log.context.risk.score}
+                        </span>
+                        {log.context.location.name} ・ {log.context.weather.temperature.toFixed(1)}°C
+                        ・ 湿度 {Math.round(log.context.weather.humidity)}% ・{" "}
+                        {pollenNames(log.context.topPollenTypes)}
+                        {log.context.capturedBy === "backfill" ? "（過去データから補完）" : ""}
+                      </p>
+                    ) : null}
                     {log.memo ? (
                       <p className="mt-1 text-xs leading-6 text-slate-600">
                         {log.memo}
@@ -1417,6 +1936,15 @@ export default function Home() {
                   </article>
                 ))
               )}
+              {logs.length > visibleLogCount ? (
+                <button
+                  type="button"
+                  className="w-full rounded-xl border border-slate-200 bg-white/75 px-3 py-2 text-sm font-semibold text-slate-700 hover:border-slate-300"
+                  onClick={() => setVisibleLogCount((prev) => prev + 14)}
+                >
+                  さらに表示（残り {logs.length - visibleLogCount} 件）
+                </button>
+              ) : null}
             </div>
           </div>
         </section>
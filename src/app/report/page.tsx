@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { DoctorReport } from "@/components/DoctorReport";
+import "./print.css";
+
+export const metadata: Metadata = {
+  title: "症状レポート | 花粉コンディション・ナビ",
+};
+
+export default function ReportPage() {
+  return <DoctorReport />;
+}
@@ -0,0 +1,137 @@
+import { FormEvent, useState } from "react";
+import { createActionKey, moveActionItem, type ActionItem } from "@/lib/action-checklist";
+import { riskLevels, type RiskLevel } from "@/lib/scoring";
+
+type ActionItemEditorProps = {
+  items: ActionItem[];
+  onChange: (items: ActionItem[]) => void;
+};
+
+function LevelSelect({
+  value,
+  onChange,
+  label,
+}: {
+  value: RiskLevel | null;
+  onChange: (value: RiskLevel | null) => void;
+  label: string;
+}) {
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(event) => onChange((event.target.value || null) as RiskLevel | null)}
+      aria-label={label}
+      className="soft-field rounded-lg px-2 py-1 text-xs text-slate-900 outline-none"
+    >
+      <option value="">おすすめ表示なし</option>
+      {riskLevels.map((level) => (
+        <option key={level} value={level}>
+          {level}以上でおすすめ
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function ActionItemEditor({ items, onChange }: ActionItemEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [recommendedFrom, setRecommendedFrom] = useState<RiskLevel | null>("高い");
+
+  function addItem(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!label.trim()) return;
+    onChange([...items, { key: createActionKey(), label: label.trim(), recommendedFrom }]);
+    setLabel("");
+  }
+
+  function updateItem(key: string, patch: Partial<ActionItem>) {
+    onChange(items.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  }
+
+  function removeItem(item: ActionItem) {
+    if (!window.confirm(`「${item.label}」をチェックリストから外しますか？`)) return;
+    onChange(items.filter((entry) => entry.key !== item.key));
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="mt-3 text-xs font-semibold text-teal-700 hover:underline"
+        onClick={() => setOpen(true)}
+      >
+        項目を編集する
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-200 bg-white/75 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold tracking-[0.12em] text-slate-600">項目の編集</p>
+        <button
+          type="button"
+          className="text-xs font-semibold text-teal-700 hover:underline"
+          onClick={() => setOpen(false)}
+        >
+          閉じる
+        </button>
+      </div>
+
+      <ul className="mt-2 space-y-2">
+        {items.map((item, index) => (
+          <li key={item.key} className="flex flex-wrap items-center gap-2 text-sm text-slate-800">
+            <span className="min-w-0 flex-1">{item.label}</span>
+            <LevelSelect
+              value={item.recommendedFrom}
+              onChange={(value) => updateItem(item.key, { recommendedFrom: value })}
+              label={`${item.label} をおすすめするリスク`}
+            />
+            <div className="flex gap-1 text-xs font-semibold">
+              <button
+                type="button"
+                className="rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100 disabled:opacity-30"
+                onClick={() => onChange(moveActionItem(items, item.key, -1))}
+                disabled={index === 0}
+                aria-label={`${item.label} を上へ`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100 disabled:opacity-30"
+                onClick={() => onChange(moveActionItem(items, item.key, 1))}
+                disabled={index === items.length - 1}
+                aria-label={`${item.label} を下へ`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="px-1.5 py-0.5 text-rose-700 hover:underline"
+                onClick={() => removeItem(item)}
+              >
+                削除
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <form className="mt-3 flex flex-wrap items-center gap-2" onSubmit={addItem}>
+        <input
+          value={label}
+          onChange={(event) => setLabel(event.target.value)}
+          placeholder="例: 鼻うがいをする"
+          aria-label="追加する対策"
+          className="soft-field min-w-0 flex-1 rounded-lg px-3 py-2 text-sm text-slate-900 outline-none"
+        />
+        <LevelSelect value={recommendedFrom} onChange={setRecommendedFrom} label="おすすめするリスク" />
+        <button type="submit" className="action-btn action-btn-accent !py-2">
+          追加
+        </button>
+      </form>
+    </div>
+  );
+}
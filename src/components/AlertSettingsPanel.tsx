@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import {
+  loadAlertSettings,
+  saveAlertSettings,
+  type AlertLocation,
+  type AlertSettings,
+} from "@/lib/alert-settings";
+import { riskLevels } from "@/lib/scoring";
+import { registerServiceWorker } from "@/lib/service-worker";
+
+type AlertSettingsPanelProps = {
+  locations: AlertLocation[];
+};
+
+type AlertStatus = "checking" | "development" | "unsupported" | "off" | "on";
+
+function decodeKey(base64: string) {
+  const padded = `${base64}${"=".repeat((4 - (base64.length % 4)) % 4)}`;
+  const raw = atob(padded.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function postSubscription(
+  subscription: PushSubscription,
+  settings: AlertSettings,
+  locations: AlertLocation[],
+) {
+  const response = await fetch("/api/push/subscription", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ subscription: subscription.toJSON(), locations, ...settings }),
+  });
+  if (!response.ok) throw new Error("subscription failed");
+}
+
+export function AlertSettingsPanel({ locations }: AlertSettingsPanelProps) {
+  const [status, setStatus] = useState<AlertStatus>("checking");
+  const [settings, setSettings] = useState<AlertSettings | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function check() {
+      // Like the page, only production builds register the service worker so
+      // its caches never serve stale dev bundles.
+      if (process.env.NODE_ENV !== "production") {
+        setStatus("development");
+        return;
+      }
+      if (!("serviceWorker" in navigator) || !("PushManager" in window)) {
+        setStatus("unsupported");
+        return;
+      }
+      try {
+        const registration = await registerServiceWorker();
+        const subscription = await registration.pushManager.getSubscription();
+        setSettings(loadAlertSettings(localStorage));
+        setStatus(subscription ? "on" : "off");
+      } catch {
+        setStatus("unsupported");
+      }
+    }
+    void check();
+  }, []);
+
+  function updateSettings(next: AlertSettings) {
+    setSettings(next);
+    saveAlertSettings(localStorage, next);
+  }
+
+  async function enable() {
+    if (!settings) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setMessage("通知が許可されませんでした。ブラウザの設定から許可してください。");
+        return;
+      }
+      const keyResponse = await fetch("/api/push/key");
+      if (!keyResponse.ok) {
+        setMessage("このサーバーでは通知機能が設定されていません。");
+        return;
+      }
+      const { publicKey } = (await keyResponse.json()) as { publicKey: string };
+      const registration = await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: decodeKey(publicKey),
+        }));
+      await postSubscription(subscription, settings, locations);
+      setStatus("on");
+      setMessage("通知設定を保存しました。");
+    } catch {
+      setMessage("通知を設定できませんでした。少し時間をおいて再試行してください。");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function disable() {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await fetch("/api/push/subscription", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      setStatus("off");
+      setMessage("通知を停止しました。");
+    } catch {
+      setMessage("通知を停止できませんでした。");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (status === "checking") return null;
+
+  if (status === "development") {
+    return (
+      <p className="mt-3 text-xs text-slate-500">
+        開発サーバーでは通知を設定できません。本番ビルド（npm run build && npm start）で確認してください。
+      </p>
+    );
+  }
+
+  if (status === "unsupported" || !settings) {
+    return (
+      <p className="mt-3 text-xs text-slate-500">
+        このブラウザはプッシュ通知に対応していません。
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+        <select
+          value={settings.threshold}
+          onChange={(event) =>
+            updateSettings({ ...settings, threshold: event.target.value as AlertSettings["threshold"] })
+          }
+          aria-label="通知するリスク"
+          className="soft-field rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none"
+        >
+          {riskLevels.map((level) => (
+            <option key={level} value={level}>
+              {level}以上
+            </option>
+          ))}
+        </select>
+        <span>になったら</span>
+        <input
+          type="time"
+          value={settings.notifyAt}
+          onChange={(event) => updateSettings({ ...settings, notifyAt: event.target.value })}
+          aria-label="通知する時刻"
+          className="soft-field rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none"
+        />
+        <span>に通知</span>
+        <button
+          type="button"
+          className="action-btn action-btn-accent !py-2"
+          onClick={() => {
+            void enable();
+          }}
+          disabled={busy || locations.length === 0}
+        >
+          {status === "on" ? "設定を更新" : "通知をオンにする"}
+        </button>
+        {status === "on" ? (
+          <button
+            type="button"
+            className="text-xs font-semibold text-rose-700 hover:underline"
+            onClick={() => {
+              void disable();
+            }}
+            disabled={busy}
+          >
+            通知をオフにする
+          </button>
+        ) : null}
+      </div>
+      <p className="mt-2 text-[11px] text-slate-500">
+        対象: {locations.map((location) => location.name).join("・")}
+        （保存した地点がない場合は表示中の地点）
+      </p>
+      {message ? <p className="mt-2 text-xs text-slate-600">{message}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { ChangeEvent, useState } from "react";
+import type { ActionHistory, ActionItem } from "@/lib/action-checklist";
+import { toJstDateString } from "@/lib/date";
+import {
+  createExportBundle,
+  entriesToCsv,
+  parseImportBundle,
+  type ImportedData,
+} from "@/lib/data-transfer";
+import type { Medication } from "@/lib/medication";
+import type { SymptomEntry } from "@/lib/symptom-log";
+
+type DataTransferPanelProps = {
+  entries: SymptomEntry[];
+  checklistHistory: ActionHistory;
+  actionItems: ActionItem[];
+  medications: Medication[];
+  onImport: (data: ImportedData) => string;
+};
+
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function DataTransferPanel({
+  entries,
+  checklistHistory,
+  actionItems,
+  medications,
+  onImport,
+}: DataTransferPanelProps) {
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stamp = toJstDateString(new Date());
+
+  function exportJson() {
+    const bundle = createExportBundle(entries, checklistHistory, actionItems, medications);
+    downloadFile(
+      `kafun-log-${stamp}.json`,
+      JSON.stringify(bundle, null, 2),
+      "application/json",
+    );
+  }
+
+  function exportCsv() {
+    // The BOM lets spreadsheet apps detect UTF-8 so Japanese headers are not garbled.
+    downloadFile(
+      `kafun-log-${stamp}.csv`,
+      `\uFEFF${entriesToCsv(entries, medications)}`,
+      "text/csv;charset=utf-8",
+    );
+  }
+
+  async function importJson(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const data = parseImportBundle(await file.text());
+      setMessage(onImport(data));
+      setError(null);
+    } catch (importError) {
+      setMessage(null);
+      setError(
+        importError instanceof Error ? importError.message : "読み込みに失敗しました。",
+      );
+    }
+  }
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-200 bg-white/75 p-3">
+      <p className="text-xs font-semibold tracking-[0.12em] text-slate-600">
+        データのバックアップ
+      </p>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button
+          type="button"
+          className="action-btn action-btn-accent !py-2"
+          onClick={exportJson}
+          disabled={entries.length === 0}
+        >
+          JSONで書き出す
+        </button>
+        <button
+          type="button"
+          className="action-btn action-btn-accent !py-2"
+          onClick={exportCsv}
+          disabled={entries.length === 0}
+        >
+          CSVで書き出す
+        </button>
+        <label className="action-btn action-btn-dark cursor-pointer !py-2">
+          JSONを読み込む
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={importJson}
+            className="hidden"
+          />
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        読み込んだログは日付・時間帯ごとに統合し、同じ記録がある場合は更新日時が新しい方を残します。
+      </p>
+      {message ? <p className="mt-2 text-xs font-semibold text-teal-700">{message}</p> : null}
+      {error ? <p className="mt-2 text-xs font-semibold text-rose-700">{error}</p> : null}
+    </div>
+  );
+}
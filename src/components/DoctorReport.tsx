@@ -0,0 +1,224 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  ACTION_ITEMS_STORAGE_KEY,
+  ACTION_STORAGE_KEY,
+  loadActionHistory,
+  loadActionItems,
+} from "@/lib/action-checklist";
+import { toDayLabel, toJstDateString } from "@/lib/date";
+import { MEDICATION_STORAGE_KEY, loadMedications, medicationKindLabels } from "@/lib/medication";
+import { buildDoctorReport } from "@/lib/report";
+import { pollenCatalog, riskLevel, type PollenTypeId } from "@/lib/scoring";
+import { SYMPTOM_LOG_STORAGE_KEY, loadSymptomLog } from "@/lib/symptom-log";
+import { levelChipClass, levelDotClass } from "./level-style";
+
+function pollenNames(ids: PollenTypeId[]) {
+  if (ids.length === 0) return "目立つ種類なし";
+  return ids.map((id) => pollenCatalog.find((type) => type.id === id)?.name ?? id).join("・");
+}
+
+const reportKeys = [
+  SYMPTOM_LOG_STORAGE_KEY,
+  MEDICATION_STORAGE_KEY,
+  ACTION_STORAGE_KEY,
+  ACTION_ITEMS_STORAGE_KEY,
+];
+
+function subscribeStorage(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  return () => window.removeEventListener("storage", onChange);
+}
+
+function storageSnapshot() {
+  return reportKeys.map((key) => localStorage.getItem(key) ?? "").join("\n");
+}
+
+export function DoctorReport() {
+  const snapshot = useSyncExternalStore(subscribeStorage, storageSnapshot, () => null);
+
+  const report = useMemo(() => {
+    if (snapshot === null) return undefined;
+    try {
+      return buildDoctorReport(
+        loadSymptomLog(localStorage),
+        loadMedications(localStorage),
+        loadActionHistory(localStorage, toJstDateString(new Date())),
+        loadActionItems(localStorage),
+      );
+    } catch {
+      return null;
+    }
+  }, [snapshot]);
+
+  if (report === undefined) return null;
+
+  if (!report) {
+    return (
+      <main className="report-page mx-auto max-w-3xl px-6 py-10">
+        <p className="rounded-xl border border-slate-200 bg-white/80 px-4 py-6 text-sm text-slate-600">
+          症状ログがまだありません。ダッシュボードで記録してからレポートを作成してください。
+        </p>
+        <Link href="/" className="mt-4 inline-block text-sm font-semibold text-teal-700 hover:underline">
+          ダッシュボードへ戻る
+        </Link>
+      </main>
+    );
+  }
+
+  return (
+    <main className="report-page mx-auto max-w-3xl px-6 py-8">
+      <div className="no-print mb-4 flex items-center justify-between gap-3">
+        <Link href="/" className="text-sm font-semibold text-teal-700 hover:underline">
+          ダッシュボードへ戻る
+        </Link>
+        <button type="button" className="action-btn action-btn-dark" onClick={() => window.print()}>
+          印刷 / PDFで保存
+        </button>
+      </div>
+
+      <article className="report-sheet panel-card rounded-[1.65rem] p-6">
+        <header className="flex flex-wrap items-end justify-between gap-2 border-b border-slate-200 pb-3">
+          <div>
+            <p className="kicker">POLLEN SYMPTOM REPORT</p>
+            <h1 className="font-heading mt-1 text-2xl font-bold text-slate-900">
+              花粉症 症状レポート
+            </h1>
+          </div>
+          <p className="text-xs text-slate-600">
+            期間: {report.startDate} 〜 {report.endDate}（記録 {report.loggedDays}日）
+            <br />
+            作成日: {toJstDateString(new Date())}
+          </p>
+        </header>
+
+        <section className="mt-4 grid grid-cols-2 gap-3 text-sm text-slate-700 sm:grid-cols-4">
+          <div className="rounded-xl border border-slate-200 bg-white/80 p-3">
+            <p className="text-xs text-slate-500">平均のつらさ</p>
+            <p className="mt-1 text-lg font-black text-slate-900">{report.averageSeverity} / 10</p>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white/80 p-3">
+            <p className="text-xs text-slate-500">服薬した日</p>
+            <p className="mt-1 text-lg font-black text-slate-900">{report.medicatedDays}日</p>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white/80 p-3">
+            <p className="text-xs text-slate-500">服薬日 / 非服薬日の平均</p>
+            <p className="mt-1 text-lg font-black text-slate-900">
+              {report.comparison.medicatedAverage ?? "--"} /{" "}
+              {report.comparison.unmedicatedAverage ?? "--"}
+            </p>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white/80 p-3">
+            <p className="text-xs text-slate-500">対策チェック平均実施率</p>
+            <p className="mt-1 text-lg font-black text-slate-900">
+              {report.checklistCompletion !== null ? `${report.checklistCompletion}%` : "--"}
+            </p>
+          </div>
+        </section>
+
+        <section className="report-block mt-5">
+          <h2 className="text-sm font-bold text-slate-900">つらさの推移</h2>
+          <div className="mt-2 rounded-xl border border-slate-200 bg-white/80 p-3">
+            <div className="flex h-32 items-end gap-[1px]">
+              {report.days.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex h-full flex-1 flex-col justify-end"
+                  title={`${day.date}: ${day.severity ?? "記録なし"}`}
+                >
+                  {day.severity !== null ? (
+                    <span
+                      className={`block w-full rounded-t-sm ${levelDotClass(riskLevel(day.severity * 10))}`}
+                      style={{ height: `${Math.max(day.severity * 10, 3)}%` }}
+                    />
+                  ) : null}
+                </div>
+              ))}
+            </div>
+            <div className="mt-1 flex gap-[1px]">
+              {report.days.map((day) => (
+                <span
+                  key={`med-${day.date}`}
+                  className={`block h-1.5 flex-1 rounded-full ${day.medicated ? "bg-teal-600" : "bg-transparent"}`}
+                />
+              ))}
+            </div>
+            <div className="mt-1 flex justify-between text-[10px] font-semibold text-slate-500">
+              <span>{toDayLabel(report.startDate)}</span>
+              <span>{toDayLabel(report.endDate)}</span>
+            </div>
+            <p className="mt-2 text-[11px] text-slate-500">
+              棒: 1日の平均のつらさ（0〜10） ・ 下の緑の印: 服薬した日
+            </p>
+          </div>
+        </section>
+
+        {report.medicationUsage.length > 0 ? (
+          <section className="report-block mt-5">
+            <h2 className="text-sm font-bold text-slate-900">使用中の薬</h2>
+            <ul className="mt-2 space-y-1 rounded-xl border border-slate-200 bg-white/80 p-3 text-sm text-slate-700">
+              {report.medicationUsage.map(({ medication, days }) => (
+                <li key={medication.id}>
+                  <strong>{medication.name}</strong>
+                  <span className="ml-1 text-xs text-slate-500">
+                    {medicationKindLabels[medication.kind]}
+                    {medication.dose ? ` ・ ${medication.dose}` : ""}
+                  </span>
+                  ：{days}日服用
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        <section className="report-block mt-5">
+          <h2 className="text-sm font-bold text-slate-900">特につらかった日</h2>
+          <table className="mt-2 w-full border-collapse text-left text-xs text-slate-700">
+            <thead>
+              <tr className="border-b border-slate-300 text-slate-500">
+                <th className="py-1 pr-2 font-semibold">日付</th>
+                <th className="py-1 pr-2 font-semibold">つらさ</th>
+                <th className="py-1 pr-2 font-semibold">リスク</th>
+                <th className="py-1 pr-2 font-semibold">気象</th>
+                <th className="py-1 font-semibold">主な花粉</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.worstDays.map((day) => (
+                <tr key={day.date} className="border-b border-slate-200">
+                  <td className="py-1.5 pr-2">{day.date}</td>
+                  <td className="py-1.5 pr-2 font-bold text-slate-900">{day.severity}</td>
+                  <td className="py-1.5 pr-2">
+                    {day.context ? (
+                      <span
+                        className={`inline-flex rounded-full px-1.5 py-0.5 text-[10px] font-semibold ${levelChipClass(day.context.risk.level)}`}
+                      >
+                        {day.context.risk.score}（{day.context.risk.level}）
+                      </span>
+                    ) : (
+                      "--"
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {day.context
+                      ? `${day.context.weather.temperature.toFixed(1)}°C ・ 湿度 ${Math.round(day.context.weather.humidity)}% ・ 風 ${day.context.weather.wind.toFixed(1)} m/s ・ 降水 ${day.context.weather.precipitation.toFixed(1)} mm`
+                      : "記録なし"}
+                  </td>
+                  <td className="py-1.5">
+                    {day.context ? pollenNames(day.context.topPollenTypes) : "--"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <p className="mt-5 text-[11px] leading-5 text-slate-500">
+          リスクと気象は記録時点の推定値です。花粉コンディション・ナビの症状ログから作成しました。
+        </p>
+      </article>
+    </main>
+  );
+}
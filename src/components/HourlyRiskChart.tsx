@@ -0,0 +1,90 @@
+import { toDayLabel } from "@/lib/date";
+import { riskLevel, type HourlyRisk, type RiskWindow } from "@/lib/scoring";
+import { levelChipClass, levelDotClass } from "./level-style";
+
+type HourlyRiskChartProps = {
+  hours: HourlyRisk[];
+  windows: RiskWindow[];
+};
+
+function hourOf(time: string) {
+  return Number(time.slice(11, 13));
+}
+
+function inWindow(item: HourlyRisk, windows: RiskWindow[]) {
+  const date = item.time.slice(0, 10);
+  const hour = hourOf(item.time);
+  return windows.some(
+    (slot) => slot.date === date && hour >= slot.startHour && hour < slot.endHour,
+  );
+}
+
+export function HourlyRiskChart({ hours, windows }: HourlyRiskChartProps) {
+  if (hours.length === 0) {
+    return (
+      <p className="mt-4 rounded-xl border border-slate-200 bg-white/75 px-3 py-4 text-sm text-slate-500">
+        時間別データを取得しています。
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="rounded-2xl border border-slate-200 bg-white/70 p-3">
+        <div className="flex h-40 items-end gap-[2px]">
+          {hours.map((item) => {
+            const highlighted = inWindow(item, windows);
+            return (
+              <div
+                key={item.time}
+                className="relative flex h-full flex-1 items-end"
+                title={`${item.time.slice(5, 10)} ${item.time.slice(11, 16)}: ${item.score}（${item.level}）`}
+              >
+                {highlighted ? (
+                  <span className="absolute inset-0 rounded-sm bg-teal-100" />
+                ) : null}
+                <span
+                  className={`relative block w-full rounded-t-sm ${levelDotClass(item.level)} ${highlighted ? "" : "opacity-80"}`}
+                  style={{ height: `${Math.max(item.score, 3)}%` }}
+                />
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-1 flex gap-[2px] text-[10px] font-semibold text-slate-500">
+          {hours.map((item) => {
+            const hour = hourOf(item.time);
+            return (
+              <span key={`label-${item.time}`} className="flex-1 whitespace-nowrap">
+                {hour === 0 ? toDayLabel(item.time.slice(0, 10)) : hour % 6 === 0 ? `${hour}時` : ""}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        {windows.map((slot) => (
+          <div
+            key={slot.date}
+            className="rounded-xl border border-teal-200 bg-teal-50/80 p-3"
+          >
+            <p className="text-xs font-semibold text-teal-700">
+              {toDayLabel(slot.date)} のおすすめ時間
+            </p>
+            <div className="mt-1 flex items-center gap-2">
+              <p className="text-lg font-black text-slate-900">
+                {slot.startHour}:00〜{slot.endHour}:00
+              </p>
+              <span
+                className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${levelChipClass(riskLevel(slot.score))}`}
+              >
+                平均 {slot.score}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { FormEvent, useState } from "react";
+import type { GeocodeResult } from "@/lib/geocoding";
+
+type LocationSearchProps = {
+  onPick: (result: GeocodeResult) => void;
+};
+
+export function LocationSearch({ onPick }: LocationSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GeocodeResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function search(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (query.trim().length < 2) return;
+
+    setSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ q: query.trim() });
+      const response = await fetch(`/api/geocode?${params.toString()}`);
+      if (!response.ok) throw new Error("検索に失敗しました");
+      const data = (await response.json()) as { results: GeocodeResult[] };
+      setResults(data.results);
+    } catch {
+      setResults(null);
+      setError("地名を検索できませんでした。少し時間をおいて再試行してください。");
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  function pick(result: GeocodeResult) {
+    onPick(result);
+    setResults(null);
+    setQuery("");
+  }
+
+  return (
+    <div className="mt-4">
+      <form className="flex flex-wrap items-center gap-2" onSubmit={search}>
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="地名・住所・郵便番号で検索（例: 横浜市、100-0001）"
+          aria-label="地名・郵便番号で検索"
+          className="soft-field min-w-0 flex-1 rounded-lg px-3 py-2 text-sm text-slate-900 outline-none"
+        />
+        <button type="submit" className="action-btn action-btn-dark !py-2" disabled={searching}>
+          {searching ? "検索中..." : "検索"}
+        </button>
+      </form>
+      {error ? <p className="mt-2 text-xs text-rose-700">{error}</p> : null}
+      {results ? (
+        results.length === 0 ? (
+          <p className="mt-2 text-xs text-slate-500">該当する地点が見つかりませんでした。</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-slate-100 rounded-xl border border-slate-200 bg-white/90">
+            {results.map((result) => (
+              <li key={`${result.lat},${result.lon},${result.name}`}>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm text-slate-800 hover:bg-teal-50"
+                  onClick={() => pick(result)}
+                >
+                  <span>
+                    {result.name}
+                    <span className="ml-1 text-xs text-slate-500">{result.prefecture}</span>
+                  </span>
+                  {result.sourceId === "offline" ? (
+                    <span className="text-[10px] font-semibold text-slate-400">内蔵データ</span>
+                  ) : null}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : null}
+    </div>
+  );
+}
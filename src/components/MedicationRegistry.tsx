@@ -0,0 +1,130 @@
+import { FormEvent, useState } from "react";
+import {
+  createMedicationId,
+  medicationKindLabels,
+  type Medication,
+  type MedicationKind,
+} from "@/lib/medication";
+import { timeOfDayLabels, type TimeOfDay } from "@/lib/symptom-log";
+
+type MedicationRegistryProps = {
+  medications: Medication[];
+  onChange: (medications: Medication[]) => void;
+};
+
+export function MedicationRegistry({ medications, onChange }: MedicationRegistryProps) {
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<MedicationKind>("antihistamine");
+  const [dose, setDose] = useState("");
+  const [schedule, setSchedule] = useState<TimeOfDay[]>(["morning"]);
+
+  function addMedication(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    onChange([
+      ...medications,
+      {
+        id: createMedicationId(),
+        name: name.trim(),
+        kind,
+        dose: dose.trim(),
+        schedule,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    setName("");
+    setDose("");
+  }
+
+  function toggleSchedule(slot: TimeOfDay) {
+    setSchedule((prev) =>
+      prev.includes(slot) ? prev.filter((item) => item !== slot) : [...prev, slot],
+    );
+  }
+
+  function removeMedication(medication: Medication) {
+    if (!window.confirm(`${medication.name} を登録から外しますか？`)) return;
+    onChange(medications.filter((item) => item.id !== medication.id));
+  }
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-200 bg-white/75 p-3">
+      <p className="text-xs font-semibold tracking-[0.12em] text-slate-600">お薬の登録</p>
+      {medications.length > 0 ? (
+        <ul className="mt-2 space-y-1 text-sm text-slate-800">
+          {medications.map((medication) => (
+            <li key={medication.id} className="flex items-center justify-between gap-2">
+              <span>
+                <strong>{medication.name}</strong>{" "}
+                <span className="text-xs text-slate-500">
+                  {medicationKindLabels[medication.kind]}
+                  {medication.dose ? ` ・ ${medication.dose}` : ""} ・{" "}
+                  {medication.schedule.length > 0
+                    ? medication.schedule.map((slot) => timeOfDayLabels[slot]).join("・")
+                    : "頓服"}
+                </span>
+              </span>
+              <button
+                type="button"
+                className="text-xs font-semibold text-rose-700 hover:underline"
+                onClick={() => removeMedication(medication)}
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-xs text-slate-500">
+          飲み薬・点鼻薬・点眼薬を登録すると、服用した薬と時刻を記録できます。
+        </p>
+      )}
+
+      <form className="mt-3 grid gap-2 sm:grid-cols-2" onSubmit={addMedication}>
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="薬の名前"
+          aria-label="薬の名前"
+          className="soft-field rounded-lg px-3 py-2 text-sm text-slate-900 outline-none"
+        />
+        <select
+          value={kind}
+          onChange={(event) => setKind(event.target.value as MedicationKind)}
+          aria-label="薬の種類"
+          className="soft-field rounded-lg px-3 py-2 text-sm text-slate-900 outline-none"
+        >
+          {(Object.keys(medicationKindLabels) as MedicationKind[]).map((item) => (
+            <option key={item} value={item}>
+              {medicationKindLabels[item]}
+            </option>
+          ))}
+        </select>
+        <input
+          value={dose}
+          onChange={(event) => setDose(event.target.value)}
+          placeholder="用量（例: 1錠、各1噴霧）"
+          aria-label="用量"
+          className="soft-field rounded-lg px-3 py-2 text-sm text-slate-900 outline-none"
+        />
+        <div className="flex items-center gap-3 text-sm text-slate-700">
+          {(Object.keys(timeOfDayLabels) as TimeOfDay[]).map((slot) => (
+            <label key={slot} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={schedule.includes(slot)}
+                onChange={() => toggleSchedule(slot)}
+                className="h-4 w-4 accent-teal-600"
+              />
+              {timeOfDayLabels[slot]}
+            </label>
+          ))}
+          <button type="submit" className="action-btn action-btn-accent ml-auto !py-2">
+            追加
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import {
+  MIN_CALIBRATION_SAMPLES,
+  topPredictors,
+  type CalibrationFeature,
+  type CalibrationModel,
+  type PersonalRisk,
+} from "@/lib/scoring";
+import { levelChipClass } from "./level-style";
+
+type PersonalRiskCardProps = {
+  model: CalibrationModel | null;
+  personal: PersonalRisk | null;
+  sampleCount: number;
+};
+
+const featureLabels: Record<CalibrationFeature, string> = {
+  risk: "総合リスク",
+  cedar: "スギ",
+  cypress: "ヒノキ",
+  grass: "イネ科",
+  ragweed: "ブタクサ",
+  birch: "シラカンバ",
+  temperature: "気温",
+  humidity: "湿度",
+  wind: "風速",
+  pm25: "PM2.5",
+  pm10: "PM10",
+  precipitation: "降水",
+};
+
+export function PersonalRiskCard({ model, personal, sampleCount }: PersonalRiskCardProps) {
+  if (!model) {
+    return (
+      <div className="mt-4 rounded-xl border border-dashed border-slate-300 bg-white/70 p-3 text-xs leading-6 text-slate-600">
+        あなた向けのリスクは、リスク情報つきの症状ログが {MIN_CALIBRATION_SAMPLES}
+        日分たまると表示されます（現在 {sampleCount} 日分）。
+      </div>
+    );
+  }
+
+  const predictors = topPredictors(model);
+
+  return (
+    <div className="mt-4 rounded-xl border border-violet-200 bg-violet-50/70 p-3">
+      <p className="text-xs font-semibold tracking-[0.12em] text-violet-700">
+        あなたの個人リスク
+      </p>
+      {personal ? (
+        <div className="mt-1 flex items-center gap-2">
+          <p className="text-2xl font-black text-slate-900">{personal.score}</p>
+          <span
+            className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${levelChipClass(personal.level)}`}
+          >
+            {personal.level}
+          </span>
+          <span className="text-xs text-slate-600">予測つらさ {personal.severity} / 10</span>
+        </div>
+      ) : (
+        <p className="mt-1 text-sm text-slate-600">今日のデータを取得しています。</p>
+      )}
+      <p className="mt-2 text-xs leading-6 text-slate-600">
+        症状と関連が強い要因:{" "}
+        <strong>
+          {predictors.length > 0
+            ? predictors.map((item) => featureLabels[item.feature]).join("・")
+            : "まだ目立つ要因はありません"}
+        </strong>
+        （{model.sampleCount} 日分のログから推定）
+      </p>
+    </div>
+  );
+}
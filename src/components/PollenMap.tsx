@@ -0,0 +1,281 @@
+import { MouseEvent, memo, useEffect, useMemo, useRef, useState } from "react";
+import type { GeoPoint } from "@/lib/geo";
+import { interpolateScore } from "@/lib/heatmap";
+import type { CityRiskPoint } from "@/lib/map-risk";
+import { findPrefecture, prefectureShapes } from "@/lib/prefectures";
+import { clamp, riskLevel } from "@/lib/scoring";
+import { levelDotClass, levelFillColor, scoreHeatColor } from "./level-style";
+
+export type MapLayer = "dots" | "heatmap" | "both";
+
+type PollenMapProps = {
+  points: CityRiskPoint[];
+  layer: MapLayer;
+  activeCityId: string | null;
+  onSelectCity: (id: string) => void;
+};
+
+type MapHover = {
+  x: number;
+  y: number;
+  name: string;
+  score: number | null;
+};
+
+const HEAT_COLUMNS = 48;
+const HEAT_ROWS = 56;
+
+const mapBounds = {
+  latMin: 24,
+  latMax: 46,
+  lonMin: 127,
+  lonMax: 146,
+};
+
+function percentToGeo(x: number, y: number): GeoPoint {
+  return {
+    lat: mapBounds.latMax - (y / 100) * (mapBounds.latMax - mapBounds.latMin),
+    lon: mapBounds.lonMin + (x / 100) * (mapBounds.lonMax - mapBounds.lonMin),
+  };
+}
+
+function geoToPercent(lat: number, lon: number) {
+  const x = ((lon - mapBounds.lonMin) / (mapBounds.lonMax - mapBounds.lonMin)) * 100;
+  const y = ((mapBounds.latMax - lat) / (mapBounds.latMax - mapBounds.latMin)) * 100;
+  return {
+    x: clamp(x, 0, 100),
+    y: clamp(y, 0, 100),
+  };
+}
+
+const prefectureOutlines = prefectureShapes.map((shape) => ({
+  code: shape.code,
+  name: shape.name,
+  path: shape.polygons
+    .map(
+      (ring) =>
+        `M${ring
+          .map((point) => {
+            const pos = geoToPercent(point.lat, point.lon);
+            return `${pos.x.toFixed(2)},${pos.y.toFixed(2)}`;
+          })
+          .join("L")}Z`,
+    )
+    .join(""),
+}));
+
+const prefectureBoxes = prefectureShapes.map((shape) => {
+  const points = shape.polygons.flat();
+  return {
+    latMin: Math.min(...points.map((point) => point.lat)),
+    latMax: Math.max(...points.map((point) => point.lat)),
+    lonMin: Math.min(...points.map((point) => point.lon)),
+    lonMax: Math.max(...points.map((point) => point.lon)),
+  };
+});
+
+// Cells that cannot touch land are dropped up front; the rest are clipped to the
+// prefecture outlines when drawn.
+const heatCells = Array.from({ length: HEAT_ROWS * HEAT_COLUMNS }, (_, index) => {
+  const width = 100 / HEAT_COLUMNS;
+  const height = 100 / HEAT_ROWS;
+  const x = (index % HEAT_COLUMNS) * width;
+  const y = Math.floor(index / HEAT_COLUMNS) * height;
+  const topLeft = percentToGeo(x, y);
+  const bottomRight = percentToGeo(x + width, y + height);
+  return {
+    x,
+    y,
+    width,
+    height,
+    center: percentToGeo(x + width / 2, y + height / 2),
+    land: prefectureBoxes.some(
+      (box) =>
+        box.latMin <= topLeft.lat &&
+        box.latMax >= bottomRight.lat &&
+        box.lonMin <= bottomRight.lon &&
+        box.lonMax >= topLeft.lon,
+    ),
+  };
+}).filter((cell) => cell.land);
+
+// Hovering only updates this component's tooltip. The layers are memoized so a
+// pointer move does not rebuild thousands of heat cells, and the lookup runs at
+// most once per animation frame.
+export const PollenMap = memo(function PollenMap({
+  points,
+  layer,
+  activeCityId,
+  onSelectCity,
+}: PollenMapProps) {
+  const [hover, setHover] = useState<MapHover | null>(null);
+  const frame = useRef<number | null>(null);
+  const pointer = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (frame.current !== null) cancelAnimationFrame(frame.current);
+    };
+  }, []);
+
+  const prefectureScores = useMemo(() => {
+    const grouped = new Map<string, number[]>();
+    for (const city of points) {
+      grouped.set(city.prefectureCode, [...(grouped.get(city.prefectureCode) ?? []), city.score]);
+    }
+    return new Map(
+      [...grouped].map(([code, scores]) => [
+        code,
+        Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      ]),
+    );
+  }, [points]);
+
+  const heatmap = useMemo(() => {
+    if (points.length === 0) return [];
+    return heatCells.map((cell) => ({
+      ...cell,
+      score: interpolateScore(points, cell.center),
+    }));
+  }, [points]);
+
+  const layers = useMemo(
+    () => (
+      <>
+        <svg
+          className="absolute inset-0 h-full w-full"
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+          aria-label="都道府県別の花粉リスク"
+        >
+          <defs>
+            <clipPath id="japan-land">
+              {prefectureOutlines.map((prefecture) => (
+                <path key={prefecture.code} d={prefecture.path} />
+              ))}
+            </clipPath>
+          </defs>
+          {prefectureOutlines.map((prefecture) => {
+            const score = prefectureScores.get(prefecture.code);
+            return (
+              <path
+                key={prefecture.code}
+                d={prefecture.path}
+                fill={
+                  layer === "dots" && score !== undefined
+                    ? levelFillColor(riskLevel(score))
+                    : "#e2e8f0"
+                }
+                fillOpacity={layer === "dots" && score !== undefined ? 0.55 : 0.8}
+              />
+            );
+          })}
+          {layer !== "dots" ? (
+            <g clipPath="url(#japan-land)" opacity={0.75}>
+              {heatmap.map((cell) =>
+                cell.score !== null ? (
+                  <rect
+                    key={`${cell.x}-${cell.y}`}
+                    x={cell.x}
+                    y={cell.y}
+                    width={cell.width + 0.05}
+                    height={cell.height + 0.05}
+                    fill={scoreHeatColor(cell.score)}
+                  />
+                ) : null,
+              )}
+            </g>
+          ) : null}
+          {prefectureOutlines.map((prefecture) => (
+            <path
+              key={`outline-${prefecture.code}`}
+              d={prefecture.path}
+              fill="none"
+              stroke="rgba(255, 255, 255, 0.9)"
+              strokeWidth={0.6}
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+
+        {(layer === "heatmap" ? [] : points).map((city) => {
+          const pos = geoToPercent(city.lat, city.lon);
+          const active = city.id === activeCityId;
+
+          return (
+            <button
+              key={city.id}
+              type="button"
+              className={`absolute -translate-x-1/2 -translate-y-1/2 text-left ${active ? "z-10" : ""}`}
+              style={{ left: `${pos.x}%`, top: `${pos.y}%` }}
+              onClick={() => onSelectCity(city.id)}
+              title={`${city.name}: ${city.score}`}
+            >
+              <span
+                className={`block rounded-full ${levelDotClass(city.level)} transition ${active ? "h-3.5 w-3.5 ring-4 ring-slate-300" : "h-2.5 w-2.5 ring-2 ring-white"}`}
+              />
+              {active ? (
+                <span className="absolute left-1/2 mt-1 block -translate-x-1/2 whitespace-nowrap rounded bg-white/90 px-1.5 py-0.5 text-[10px] font-semibold text-slate-700 shadow-sm">
+                  {city.name}
+                </span>
+              ) : null}
+            </button>
+          );
+        })}
+      </>
+    ),
+    [layer, points, activeCityId, onSelectCity, prefectureScores, heatmap],
+  );
+
+  function updateHover() {
+    frame.current = null;
+    const position = pointer.current;
+    if (!position) return;
+    const point = percentToGeo(position.x, position.y);
+    const prefecture = findPrefecture(point);
+    setHover(
+      prefecture
+        ? { ...position, name: prefecture.name, score: interpolateScore(points, point) }
+        : null,
+    );
+  }
+
+  function moveHover(event: MouseEvent<HTMLDivElement>) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    pointer.current = {
+      x: ((event.clientX - rect.left) / rect.width) * 100,
+      y: ((event.clientY - rect.top) / rect.height) * 100,
+    };
+    if (frame.current === null) frame.current = requestAnimationFrame(updateHover);
+  }
+
+  function leaveHover() {
+    pointer.current = null;
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+    frame.current = null;
+    setHover(null);
+  }
+
+  return (
+    <div
+      className="relative h-[420px] overflow-hidden rounded-xl bg-[radial-gradient(circle_at_22%_20%,rgba(103,232,249,0.35),transparent_38%),linear-gradient(180deg,#dbeafe_0%,#cffafe_53%,#d1fae5_100%)]"
+      onMouseMove={moveHover}
+      onMouseLeave={leaveHover}
+    >
+      {layers}
+
+      {hover ? (
+        <div
+          className="pointer-events-none absolute z-20 -translate-x-1/2 -translate-y-[130%] whitespace-nowrap rounded-lg bg-slate-900/85 px-2 py-1 text-[11px] font-semibold text-white shadow"
+          style={{ left: `${hover.x}%`, top: `${hover.y}%` }}
+        >
+          {hover.name}
+          {hover.score !== null
+            ? ` 推定 ${hover.score}（${riskLevel(hover.score)}）`
+            : " データ取得中"}
+        </div>
+      ) : null}
+    </div>
+  );
+});
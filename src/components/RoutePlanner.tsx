@@ -0,0 +1,231 @@
+import { FormEvent, useState } from "react";
+import { addDays, toJstDateString } from "@/lib/date";
+import type { LocationOption } from "@/lib/geo";
+import {
+  MAX_ROUTE_STOPS,
+  MIN_ROUTE_STOPS,
+  formatRouteStops,
+  isRouteInOrder,
+  type RoutePlan,
+} from "@/lib/route-exposure";
+
+type RoutePlannerProps = {
+  locations: LocationOption[];
+};
+
+type StopDraft = {
+  locationId: string;
+  time: string;
+};
+
+export function RoutePlanner({ locations }: RoutePlannerProps) {
+  const [stops, setStops] = useState<StopDraft[]>(() => [
+    { locationId: locations[0]?.id ?? "", time: "08:00" },
+    { locationId: locations[1]?.id ?? locations[0]?.id ?? "", time: "08:45" },
+  ]);
+  const [dayOffset, setDayOffset] = useState(0);
+  const [windowStart, setWindowStart] = useState("07:00");
+  const [windowEnd, setWindowEnd] = useState("09:00");
+  const [plan, setPlan] = useState<RoutePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function updateStop(index: number, patch: Partial<StopDraft>) {
+    setStops(stops.map((stop, position) => (position === index ? { ...stop, ...patch } : stop)));
+  }
+
+  function addStop() {
+    const last = stops[stops.length - 1];
+    setStops([...stops, { locationId: locations[0]?.id ?? "", time: last.time }]);
+  }
+
+  async function calculate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const route = stops.flatMap((stop) => {
+      const location = locations.find((item) => item.id === stop.locationId);
+      return location ? [{ lat: location.lat, lon: location.lon, time: stop.time }] : [];
+    });
+    if (route.length !== stops.length) {
+      setError("見つからない地点があります。地点を選び直してください。");
+      return;
+    }
+    if (!isRouteInOrder(route)) {
+      setError("各地点の時刻が順に進むよう入力してください。");
+      return;
+    }
+    if (windowStart > windowEnd) {
+      setError("出発時刻の範囲は、開始が終了より前になるよう入力してください。");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        date: addDays(toJstDateString(new Date()), dayOffset),
+        stops: formatRouteStops(route),
+        windowStart,
+        windowEnd,
+      });
+      const response = await fetch(`/api/route-exposure?${params.toString()}`);
+      if (!response.ok) throw new Error("経路の計算に失敗しました");
+      setPlan((await response.json()) as RoutePlan);
+    } catch {
+      setPlan(null);
+      setError("経路のリスクを計算できませんでした。少し時間をおいて再試行してください。");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const maxExposure = plan ? Math.max(...plan.candidates.map((item) => item.exposure), 1) : 1;
+  const saving =
+    plan && plan.planned.exposure > 0
+      ? Math.round((1 - plan.best.exposure / plan.planned.exposure) * 100)
+      : 0;
+
+  return (
+    <div className="mt-4">
+      <form onSubmit={calculate}>
+        <ol className="space-y-2">
+          {stops.map((stop, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 text-sm text-slate-800">
+              <span className="w-16 text-xs font-semibold text-slate-500">
+                {index === 0 ? "出発" : index === stops.length - 1 ? "到着" : `経由${index}`}
+              </span>
+              <select
+                value={stop.locationId}
+                onChange={(event) => updateStop(index, { locationId: event.target.value })}
+                aria-label={`${index + 1}番目の地点`}
+                className="soft-field min-w-0 flex-1 rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none"
+              >
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="time"
+                value={stop.time}
+                onChange={(event) => updateStop(index, { time: event.target.value })}
+                aria-label={`${index + 1}番目の地点の時刻`}
+                className="soft-field rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none"
+              />
+              <button
+                type="button"
+                className="px-1.5 py-0.5 text-xs font-semibold text-rose-700 hover:underline disabled:opacity-30"
+                onClick={() => setStops(stops.filter((_, position) => position !== index))}
+                disabled={stops.length <= MIN_ROUTE_STOPS}
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ol>
+        <button
+          type="button"
+          className="mt-2 text-xs font-semibold text-teal-700 hover:underline disabled:opacity-40"
+          onClick={addStop}
+          disabled={stops.length >= MAX_ROUTE_STOPS}
+        >
+          地点を追加
+        </button>
+
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-700">
+          <select
+            value={dayOffset}
+            onChange={(event) => setDayOffset(Number(event.target.value))}
+            aria-label="日付"
+            className="soft-field rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none"
+          >
+            <option value={0}>今日</option>
+            <option value={1}>明日</option>
+          </select>
+          <span>出発を</span>
+          <input
+            type="time"
+            value={windowStart}
+            onChange={(event) => setWindowStart(event.target.value)}
+            aria-label="出発時刻の範囲（開始）"
+            className="soft-field rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none"
+          />
+          <span>〜</span>
+          <input
+            type="time"
+            value={windowEnd}
+            onChange={(event) => setWindowEnd(event.target.value)}
+            aria-label="出発時刻の範囲（終了）"
+            className="soft-field rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none"
+          />
+          <span>の間で比較</span>
+          <button type="submit" className="action-btn action-btn-accent !py-2" disabled={loading}>
+            {loading ? "計算中..." : "計算する"}
+          </button>
+        </div>
+      </form>
+      <p className="mt-2 text-[11px] text-slate-500">
+        駅や職場は、上の「表示中の地点を保存」で登録するとここで選べます。地点の間は直線で移動するとみなします。
+      </p>
+
+      {error ? <p className="mt-3 text-sm text-rose-700">{error}</p> : null}
+
+      {plan ? (
+        <div className="mt-4 grid gap-3 md:grid-cols-2">
+          <div className="rounded-xl border border-slate-200 bg-white/80 p-4">
+            <p className="text-xs font-semibold tracking-[0.12em] text-slate-500">予定どおりの場合</p>
+            <p className="mt-1 text-xl font-black text-slate-900">
+              {plan.planned.departure} → {plan.planned.arrival}
+            </p>
+            <p className="mt-1 text-sm text-slate-600">
+              累積曝露 {plan.planned.exposure}（平均 {plan.planned.averageScore} / 最大{" "}
+              {plan.planned.peakScore}）
+            </p>
+          </div>
+          <div className="rounded-xl border border-teal-200 bg-teal-50/80 p-4">
+            <p className="text-xs font-semibold tracking-[0.12em] text-teal-700">おすすめの出発時刻</p>
+            <p className="mt-1 text-xl font-black text-slate-900">
+              {plan.best.departure} → {plan.best.arrival}
+            </p>
+            <p className="mt-1 text-sm text-slate-600">
+              累積曝露 {plan.best.exposure}
+              {saving > 0 ? `（予定より ${saving}% 少なめ）` : "（予定の時刻がいちばん少なめです）"}
+            </p>
+          </div>
+
+          {Math.min(plan.planned.coverage, plan.best.coverage) < 1 ? (
+            <p className="text-xs text-amber-700 md:col-span-2">
+              予報データが欠けている区間があるため、推定の精度が下がっています（データのある時間{" "}
+              {Math.round(Math.min(plan.planned.coverage, plan.best.coverage) * 100)}%）。
+            </p>
+          ) : null}
+
+          {plan.candidates.length > 1 ? (
+            <div className="md:col-span-2">
+              <div className="flex h-20 items-end gap-[2px]">
+                {plan.candidates.map((candidate) => (
+                  <span
+                    key={candidate.departure}
+                    className={`block flex-1 rounded-t-sm ${
+                      candidate.departure === plan.best.departure ? "bg-teal-600" : "bg-slate-300"
+                    }`}
+                    style={{ height: `${Math.max((candidate.exposure / maxExposure) * 100, 4)}%` }}
+                    title={`${candidate.departure} 出発: ${candidate.exposure}`}
+                  />
+                ))}
+              </div>
+              <div className="mt-1 flex justify-between text-[10px] font-semibold text-slate-500">
+                <span>{plan.candidates[0].departure}</span>
+                <span>{plan.candidates[plan.candidates.length - 1].departure}</span>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <p className="mt-3 text-[11px] text-slate-500">
+        累積曝露は、経路上の1時間ごとの推定リスクを移動時間で積み上げた値（スコア×時間）です。
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { FormEvent, useState } from "react";
+import type { LocationOption } from "@/lib/geo";
+import { MAX_SAVED_LOCATIONS } from "@/lib/saved-locations";
+import type { RiskResult } from "@/lib/scoring";
+import { levelChipClass } from "./level-style";
+
+type SavedLocationCardsProps = {
+  locations: LocationOption[];
+  risks: Record<string, RiskResult | null>;
+  selectedId: string;
+  currentName: string;
+  onSelect: (id: string) => void;
+  onSave: (name: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (location: LocationOption) => void;
+};
+
+export function SavedLocationCards({
+  locations,
+  risks,
+  selectedId,
+  currentName,
+  onSelect,
+  onSave,
+  onMove,
+  onRemove,
+}: SavedLocationCardsProps) {
+  const [name, setName] = useState("");
+  const full = locations.length >= MAX_SAVED_LOCATIONS;
+
+  function saveCurrent(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (full) return;
+    onSave(name.trim() || currentName);
+    setName("");
+  }
+
+  return (
+    <div>
+      {locations.length > 0 ? (
+        <div className="mt-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+          {locations.map((location, index) => {
+            const risk = risks[location.id];
+            return (
+              <article
+                key={location.id}
+                className={`rounded-xl border bg-white/80 p-3 ${
+                  location.id === selectedId ? "border-teal-400" : "border-slate-200"
+                }`}
+              >
+                <button
+                  type="button"
+                  className="block w-full text-left"
+                  onClick={() => onSelect(location.id)}
+                >
+                  <p className="text-xs font-semibold text-slate-500">{location.name}</p>
+                  <div className="mt-1 flex items-center gap-2">
+                    <p className="text-2xl font-black text-slate-900">
+                      {risk ? risk.score : "--"}
+                    </p>
+                    {risk ? (
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs font-semibold ${levelChipClass(risk.level)}`}
+                      >
+                        {risk.level}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-slate-400">
+                        {risk === null ? "取得できませんでした" : "取得中"}
+                      </span>
+                    )}
+                  </div>
+                  {risk ? (
+                    <p className="mt-1 line-clamp-2 text-[11px] leading-5 text-slate-600">
+                      {risk.advice}
+                    </p>
+                  ) : null}
+                </button>
+                <div className="mt-2 flex gap-1 text-xs font-semibold">
+                  <button
+                    type="button"
+                    className="rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100 disabled:opacity-30"
+                    onClick={() => onMove(location.id, -1)}
+                    disabled={index === 0}
+                    aria-label={`${location.name} を前へ`}
+                  >
+                    ←
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100 disabled:opacity-30"
+                    onClick={() => onMove(location.id, 1)}
+                    disabled={index === locations.length - 1}
+                    aria-label={`${location.name} を後ろへ`}
+                  >
+                    →
+                  </button>
+                  <button
+                    type="button"
+                    className="ml-auto px-1.5 py-0.5 text-rose-700 hover:underline"
+                    onClick={() => onRemove(location)}
+                  >
+                    削除
+                  </button>
+                </div>
+              </article>
+            );
+          })}
+        </div>
+      ) : null}
+
+      <form className="mt-4 flex flex-wrap items-center gap-2" onSubmit={saveCurrent}>
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={`名前（例: 自宅・職場）。空欄なら「${currentName}」`}
+          aria-label="保存する地点の名前"
+          className="soft-field min-w-0 flex-1 rounded-lg px-3 py-2 text-sm text-slate-900 outline-none"
+        />
+        <button type="submit" className="action-btn action-btn-accent !py-2" disabled={full}>
+          表示中の地点を保存
+        </button>
+      </form>
+      {full ? (
+        <p className="mt-2 text-xs text-slate-500">
+          保存できる地点は{MAX_SAVED_LOCATIONS}件までです。
+        </p>
+      ) : null}
+    </div>
+  );
+}
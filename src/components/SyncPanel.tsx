@@ -0,0 +1,222 @@
+import { FormEvent, useCallback, useEffect, useRef, useState } from "react";
+import {
+  fromSyncRecords,
+  loadSyncState,
+  mergeSyncRecords,
+  sanitizeSyncRecord,
+  saveSyncState,
+  syncStateFromRecords,
+  toSyncRecords,
+  trackLocalChanges,
+  type LocalSyncData,
+  type SyncRecord,
+} from "@/lib/sync";
+
+type SyncPanelProps = {
+  data: LocalSyncData | null;
+  onApply: (data: LocalSyncData) => void;
+};
+
+type SessionStatus = {
+  enabled: boolean;
+  email: string | null;
+};
+
+const emptySyncState = { lastSyncedAt: null, known: {} };
+
+function syncedAtLabel(value: string) {
+  return new Intl.DateTimeFormat("ja-JP", {
+    timeZone: "Asia/Tokyo",
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(value));
+}
+
+export function SyncPanel({ data, onApply }: SyncPanelProps) {
+  const [session, setSession] = useState<SessionStatus | null>(null);
+  const [email, setEmail] = useState("");
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const autoSynced = useRef(false);
+
+  useEffect(() => {
+    async function check() {
+      try {
+        const response = await fetch("/api/auth/session");
+        if (!response.ok) return;
+        setSession((await response.json()) as SessionStatus);
+        setLastSyncedAt(loadSyncState(localStorage).lastSyncedAt);
+        if (new URLSearchParams(window.location.search).get("sync") === "expired") {
+          setError("ログインリンクの有効期限が切れています。もう一度送信してください。");
+        }
+      } catch {
+        setSession(null);
+      }
+    }
+    void check();
+  }, []);
+
+  // Edits between syncs are stamped as they happen, so a later sync can tell
+  // which side changed a record last.
+  useEffect(() => {
+    if (!data) return;
+    try {
+      const state = loadSyncState(localStorage);
+      if (!state.lastSyncedAt) return;
+      saveSyncState(localStorage, trackLocalChanges(state, data, new Date().toISOString()));
+    } catch {
+      // The next sync re-tracks from the current data.
+    }
+  }, [data]);
+
+  const sync = useCallback(
+    async (current: LocalSyncData) => {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      try {
+        const state = trackLocalChanges(
+          loadSyncState(localStorage),
+          current,
+          new Date().toISOString(),
+        );
+        const local = toSyncRecords(state, current);
+        const response = await fetch("/api/sync", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ records: local }),
+        });
+        if (response.status === 401) {
+          setSession({ enabled: true, email: null });
+          throw new Error("ログインの有効期限が切れました。もう一度ログインしてください。");
+        }
+        if (!response.ok) {
+          throw new Error("同期できませんでした。少し時間をおいて再試行してください。");
+        }
+
+        const body = (await response.json()) as { records: unknown; syncedAt: string };
+        // A malformed record from the server must not override a valid local one.
+        const remote = (Array.isArray(body.records) ? body.records : [])
+          .map(sanitizeSyncRecord)
+          .filter((record): record is SyncRecord => record !== null);
+        const merged = mergeSyncRecords(local, remote);
+        const applied = fromSyncRecords(merged);
+        saveSyncState(
+          localStorage,
+          trackLocalChanges(syncStateFromRecords(merged, body.syncedAt), applied, body.syncedAt),
+        );
+        onApply(applied);
+        setLastSyncedAt(body.syncedAt);
+      } catch (syncError) {
+        setError(
+          syncError instanceof Error && syncError.message
+            ? syncError.message
+            : "同期できませんでした。少し時間をおいて再試行してください。",
+        );
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onApply],
+  );
+
+  // Pull once as soon as both the session and the local data are ready.
+  useEffect(() => {
+    if (!data || !session?.email || autoSynced.current) return;
+    autoSynced.current = true;
+    void sync(data);
+  }, [data, session, sync]);
+
+  async function sendLink(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/auth/email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) throw new Error(body.error);
+      setMessage("ログインリンクを送信しました。メールのリンクをこの端末で開いてください。");
+    } catch (sendError) {
+      setError(
+        sendError instanceof Error && sendError.message
+          ? sendError.message
+          : "ログインリンクを送信できませんでした。",
+      );
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function signOut() {
+    if (!window.confirm("この端末の同期を解除しますか？記録はこの端末に残ります。")) return;
+    await fetch("/api/auth/session", { method: "DELETE" }).catch(() => undefined);
+    saveSyncState(localStorage, emptySyncState);
+    setSession({ enabled: true, email: null });
+    setLastSyncedAt(null);
+    setMessage(null);
+  }
+
+  if (!session?.enabled) return null;
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-200 bg-white/75 p-3">
+      <p className="text-xs font-semibold tracking-[0.12em] text-slate-600">端末間の同期</p>
+      {session.email ? (
+        <div className="mt-2">
+          <p className="text-sm text-slate-700">
+            {session.email} でログイン中
+            <span className="ml-2 text-xs text-slate-500">
+              {lastSyncedAt ? `最終同期 ${syncedAtLabel(lastSyncedAt)}` : "未同期"}
+            </span>
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="action-btn action-btn-accent !py-2"
+              onClick={() => data && void sync(data)}
+              disabled={busy || !data}
+            >
+              {busy ? "同期中..." : "今すぐ同期"}
+            </button>
+            <button
+              type="button"
+              className="px-1.5 py-0.5 text-xs font-semibold text-rose-700 hover:underline"
+              onClick={() => void signOut()}
+            >
+              ログアウト
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form className="mt-2 flex flex-wrap items-center gap-2" onSubmit={sendLink}>
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="メールアドレス"
+            aria-label="同期に使うメールアドレス"
+            required
+            className="soft-field min-w-0 flex-1 rounded-lg px-3 py-2 text-sm text-slate-900 outline-none"
+          />
+          <button type="submit" className="action-btn action-btn-accent !py-2" disabled={busy}>
+            ログインリンクを送る
+          </button>
+        </form>
+      )}
+      {message ? <p className="mt-2 text-xs text-teal-700">{message}</p> : null}
+      {error ? <p className="mt-2 text-xs text-rose-700">{error}</p> : null}
+      <p className="mt-2 text-[11px] text-slate-500">
+        症状ログ・対策チェックの履歴・保存した地点を同期します。同じ記録が両方で変更された場合は、後から変更した方が残ります。
+      </p>
+    </div>
+  );
+}
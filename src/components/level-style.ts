@@ -0,0 +1,37 @@
+import type { RiskLevel, ScoreSource } from "@/lib/scoring";
+
+export function levelChipClass(level: RiskLevel) {
+  if (level === "非常に高い") return "bg-rose-100 text-rose-700";
+  if (level === "高い") return "bg-orange-100 text-orange-700";
+  if (level === "やや高い") return "bg-amber-100 text-amber-700";
+  return "bg-emerald-100 text-emerald-700";
+}
+
+export function levelDotClass(level: RiskLevel) {
+  if (level === "非常に高い") return "bg-rose-600";
+  if (level === "高い") return "bg-orange-500";
+  if (level === "やや高い") return "bg-amber-500";
+  return "bg-emerald-500";
+}
+
+export function levelFillColor(level: RiskLevel) {
+  if (level === "非常に高い") return "#f43f5e";
+  if (level === "高い") return "#f97316";
+  if (level === "やや高い") return "#f59e0b";
+  return "#10b981";
+}
+
+// Hue runs from green (0) through amber to red (100) so the heatmap stays continuous.
+export function scoreHeatColor(score: number) {
+  const hue = 150 - Math.min(Math.max(score, 0), 100) * 1.5;
+  return `hsl(${hue} 85% 50%)`;
+}
+
+export function sourceLabel(source: ScoreSource) {
+  return source === "measured" ? "実測" : "推定";
+}
+
+export function sourceChipClass(source: ScoreSource) {
+  if (source === "measured") return "bg-sky-100 text-sky-700";
+  return "bg-slate-100 text-slate-600";
+}
@@ -0,0 +1,12 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { startAlertScheduler } = await import("./lib/push");
+  startAlertScheduler();
+
+  const { appOrigin } = await import("./lib/account");
+  if (process.env.SYNC_ENABLED === "1" && !appOrigin()) {
+    console.error(
+      "SYNC_ENABLED=1 requires APP_ORIGIN (e.g. https://kafun.example.com); sync stays disabled.",
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from "node:crypto";
+
+export const SESSION_COOKIE = "kafun_session";
+export const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const SESSION_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+export function createToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+// Only hashes are stored, so a leaked database cannot be replayed as logins.
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function normalizeEmail(value: unknown) {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && email.length <= 254 ? email : null;
+}
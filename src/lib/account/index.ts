@@ -0,0 +1,81 @@
+import path from "node:path";
+import type { NextRequest } from "next/server";
+import { hashToken, SESSION_COOKIE } from "./auth";
+import { createLogMailer, createSmtpMailer } from "./mailer";
+import { createMemoryAccountStore } from "./memory-store";
+import { createSqliteAccountStore } from "./sqlite-store";
+import type { AccountStore, AccountUser, Mailer } from "./types";
+
+export {
+  LOGIN_TOKEN_TTL_MS,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  createToken,
+  hashToken,
+  normalizeEmail,
+} from "./auth";
+export { createLogMailer, createSmtpMailer } from "./mailer";
+export {
+  LOGIN_LINKS_PER_EMAIL,
+  LOGIN_LINKS_PER_IP,
+  LOGIN_LINK_WINDOW_MS,
+  createRateLimiter,
+} from "./rate-limit";
+export { createMemoryAccountStore } from "./memory-store";
+export { createSqliteAccountStore } from "./sqlite-store";
+export type { RateLimiter } from "./rate-limit";
+export type { AccountStore, AccountUser, Mailer } from "./types";
+
+// Login links and the verify check use this fixed origin rather than the
+// request's Host header, which a client can forge to send links elsewhere.
+export function appOrigin() {
+  const value = process.env.APP_ORIGIN;
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:" ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isSyncEnabled() {
+  return process.env.SYNC_ENABLED === "1" && appOrigin() !== null;
+}
+
+let defaultStore: AccountStore | null = null;
+
+export function createDefaultAccountStore(): AccountStore {
+  if (process.env.SYNC_STORE === "memory") return createMemoryAccountStore();
+  return createSqliteAccountStore(
+    process.env.SYNC_DATABASE_PATH ?? path.join(process.cwd(), ".data", "sync.sqlite"),
+  );
+}
+
+// Route modules share one store so the SQLite file is opened once per process.
+export function defaultAccountStore() {
+  defaultStore ??= createDefaultAccountStore();
+  return defaultStore;
+}
+
+export function createDefaultMailer(): Mailer {
+  const smtpUrl = process.env.SMTP_URL;
+  return smtpUrl
+    ? createSmtpMailer(smtpUrl, process.env.MAIL_FROM ?? "no-reply@localhost")
+    : createLogMailer();
+}
+
+// Only meaningful behind a reverse proxy that sets these headers; without one
+// the address is unknown and callers fall back to per-email limits.
+export function clientIp(request: NextRequest) {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || request.headers.get("x-real-ip") || null;
+}
+
+export async function sessionUser(
+  request: NextRequest,
+  store: AccountStore,
+): Promise<AccountUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? store.findSessionUser(hashToken(token), Date.now()) : null;
+}
@@ -0,0 +1,36 @@
+import nodemailer from "nodemailer";
+import type { Mailer } from "./types";
+
+function loginMessage(url: string) {
+  return [
+    "花粉コンディション・ナビへのログインリンクです。",
+    "",
+    url,
+    "",
+    "このリンクは15分間有効です。心当たりがない場合はこのメールを破棄してください。",
+  ].join("\n");
+}
+
+export function createSmtpMailer(smtpUrl: string, from: string): Mailer {
+  const transport = nodemailer.createTransport(smtpUrl);
+  return {
+    async sendLoginLink(email, url) {
+      await transport.sendMail({
+        from,
+        to: email,
+        subject: "花粉コンディション・ナビ ログインリンク",
+        text: loginMessage(url),
+      });
+    },
+  };
+}
+
+// Without SMTP settings the link goes to the server log, which is enough for a
+// single-user self-hosted setup.
+export function createLogMailer(): Mailer {
+  return {
+    async sendLoginLink(email, url) {
+      process.stdout.write(`[kafun] login link for ${email}: ${url}\n`);
+    },
+  };
+}
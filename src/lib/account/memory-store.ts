@@ -0,0 +1,49 @@
+import { randomUUID } from "node:crypto";
+import { newerRecord, syncKey, type SyncRecord } from "../sync";
+import type { AccountStore, AccountUser } from "./types";
+
+export function createMemoryAccountStore(): AccountStore {
+  const users = new Map<string, AccountUser>();
+  const loginTokens = new Map<string, { email: string; expiresAt: number }>();
+  const sessions = new Map<string, { userId: string; expiresAt: number }>();
+  const records = new Map<string, Map<string, SyncRecord>>();
+
+  return {
+    async findOrCreateUser(email) {
+      const existing = [...users.values()].find((user) => user.email === email);
+      if (existing) return existing;
+      const user = { id: randomUUID(), email };
+      users.set(user.id, user);
+      return user;
+    },
+    async saveLoginToken(tokenHash, email, expiresAt) {
+      loginTokens.set(tokenHash, { email, expiresAt });
+    },
+    async consumeLoginToken(tokenHash, now) {
+      const token = loginTokens.get(tokenHash);
+      loginTokens.delete(tokenHash);
+      return token && token.expiresAt > now ? token.email : null;
+    },
+    async saveSession(tokenHash, userId, expiresAt) {
+      sessions.set(tokenHash, { userId, expiresAt });
+    },
+    async findSessionUser(tokenHash, now) {
+      const session = sessions.get(tokenHash);
+      if (!session || session.expiresAt <= now) return null;
+      return users.get(session.userId) ?? null;
+    },
+    async deleteSession(tokenHash) {
+      sessions.delete(tokenHash);
+    },
+    async listRecords(userId) {
+      return [...(records.get(userId)?.values() ?? [])];
+    },
+    async putRecords(userId, incoming) {
+      const stored = records.get(userId) ?? new Map<string, SyncRecord>();
+      for (const record of incoming) {
+        stored.set(syncKey(record), newerRecord(stored.get(syncKey(record)), record));
+      }
+      records.set(userId, stored);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rate-limit";
+
+describe("createRateLimiter", () => {
+  it("allows up to the limit within a window", () => {
+    const limiter = createRateLimiter(2, 1000);
+    expect(limiter.take("a", 0)).toBe(true);
+    expect(limiter.take("a", 100)).toBe(true);
+    expect(limiter.take("a", 200)).toBe(false);
+  });
+
+  it("counts each key separately", () => {
+    const limiter = createRateLimiter(1, 1000);
+    expect(limiter.take("a", 0)).toBe(true);
+    expect(limiter.take("b", 0)).toBe(true);
+    expect(limiter.take("a", 0)).toBe(false);
+  });
+
+  it("starts a new window once the previous one has passed", () => {
+    const limiter = createRateLimiter(1, 1000);
+    expect(limiter.take("a", 0)).toBe(true);
+    expect(limiter.take("a", 999)).toBe(false);
+    expect(limiter.take("a", 1000)).toBe(true);
+    expect(limiter.take("a", 1500)).toBe(false);
+  });
+});
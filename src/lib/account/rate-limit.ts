@@ -0,0 +1,34 @@
+export const LOGIN_LINK_WINDOW_MS = 15 * 60 * 1000;
+export const LOGIN_LINKS_PER_EMAIL = 3;
+export const LOGIN_LINKS_PER_IP = 10;
+
+const PRUNE_THRESHOLD = 10_000;
+
+export type RateLimiter = {
+  take(key: string, now: number): boolean;
+};
+
+// Fixed windows held in memory: enough for one self-hosted server, and counts
+// simply reset on restart.
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(key, now) {
+      const current = windows.get(key);
+      if (current && now - current.start < windowMs) {
+        if (current.count >= limit) return false;
+        current.count += 1;
+        return true;
+      }
+
+      if (windows.size >= PRUNE_THRESHOLD) {
+        for (const [item, window] of windows) {
+          if (now - window.start >= windowMs) windows.delete(item);
+        }
+      }
+      windows.set(key, { start: now, count: 1 });
+      return true;
+    },
+  };
+}
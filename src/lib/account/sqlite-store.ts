@@ -0,0 +1,139 @@
+import Database from "better-sqlite3";
+import { randomUUID } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import { newerRecord, type SyncKind, type SyncRecord } from "../sync";
+import type { AccountStore, AccountUser } from "./types";
+
+type RecordRow = {
+  kind: SyncKind;
+  record_id: string;
+  updated_at: string;
+  deleted: number;
+  data: string | null;
+};
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS login_tokens (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id),
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS records (
+    user_id TEXT NOT NULL REFERENCES users(id),
+    kind TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    deleted INTEGER NOT NULL,
+    data TEXT,
+    PRIMARY KEY (user_id, kind, record_id)
+  );
+`;
+
+function toRecord(row: RecordRow): SyncRecord {
+  return {
+    kind: row.kind,
+    id: row.record_id,
+    updatedAt: row.updated_at,
+    deleted: row.deleted === 1,
+    data: row.data === null ? null : JSON.parse(row.data),
+  };
+}
+
+export function createSqliteAccountStore(filePath: string): AccountStore {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.exec(schema);
+
+  const selectUser = db.prepare<[string], AccountUser>("SELECT id, email FROM users WHERE email = ?");
+  const insertUser = db.prepare("INSERT INTO users (id, email, created_at) VALUES (?, ?, ?)");
+  const insertToken = db.prepare(
+    "INSERT OR REPLACE INTO login_tokens (token_hash, email, expires_at) VALUES (?, ?, ?)",
+  );
+  const selectToken = db.prepare<[string], { email: string; expires_at: number }>(
+    "SELECT email, expires_at FROM login_tokens WHERE token_hash = ?",
+  );
+  const deleteToken = db.prepare("DELETE FROM login_tokens WHERE token_hash = ?");
+  const insertSession = db.prepare(
+    "INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)",
+  );
+  const selectSessionUser = db.prepare<[string, number], AccountUser>(
+    `SELECT users.id, users.email FROM sessions
+     JOIN users ON users.id = sessions.user_id
+     WHERE sessions.token_hash = ? AND sessions.expires_at > ?`,
+  );
+  const deleteSessionRow = db.prepare("DELETE FROM sessions WHERE token_hash = ?");
+  const selectRecords = db.prepare<[string], RecordRow>(
+    "SELECT kind, record_id, updated_at, deleted, data FROM records WHERE user_id = ?",
+  );
+  const selectRecord = db.prepare<[string, string, string], RecordRow>(
+    `SELECT kind, record_id, updated_at, deleted, data FROM records
+     WHERE user_id = ? AND kind = ? AND record_id = ?`,
+  );
+  const upsertRecord = db.prepare(
+    `INSERT INTO records (user_id, kind, record_id, updated_at, deleted, data)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (user_id, kind, record_id) DO UPDATE SET
+       updated_at = excluded.updated_at, deleted = excluded.deleted, data = excluded.data`,
+  );
+
+  const putRecordsTransaction = db.transaction((userId: string, records: SyncRecord[]) => {
+    for (const record of records) {
+      const row = selectRecord.get(userId, record.kind, record.id);
+      const current = row ? toRecord(row) : undefined;
+      if (newerRecord(current, record) !== record) continue;
+      upsertRecord.run(
+        userId,
+        record.kind,
+        record.id,
+        record.updatedAt,
+        record.deleted ? 1 : 0,
+        record.deleted ? null : JSON.stringify(record.data),
+      );
+    }
+  });
+
+  return {
+    async findOrCreateUser(email) {
+      const existing = selectUser.get(email);
+      if (existing) return existing;
+      const user = { id: randomUUID(), email };
+      insertUser.run(user.id, user.email, new Date().toISOString());
+      return user;
+    },
+    async saveLoginToken(tokenHash, email, expiresAt) {
+      insertToken.run(tokenHash, email, expiresAt);
+    },
+    async consumeLoginToken(tokenHash, now) {
+      const row = selectToken.get(tokenHash);
+      deleteToken.run(tokenHash);
+      return row && row.expires_at > now ? row.email : null;
+    },
+    async saveSession(tokenHash, userId, expiresAt) {
+      insertSession.run(tokenHash, userId, expiresAt);
+    },
+    async findSessionUser(tokenHash, now) {
+      return selectSessionUser.get(tokenHash, now) ?? null;
+    },
+    async deleteSession(tokenHash) {
+      deleteSessionRow.run(tokenHash);
+    },
+    async listRecords(userId) {
+      return selectRecords.all(userId).map(toRecord);
+    },
+    async putRecords(userId, records) {
+      putRecordsTransaction(userId, records);
+    },
+  };
+}
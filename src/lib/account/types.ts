@@ -0,0 +1,21 @@
+import type { SyncRecord } from "../sync";
+
+export type AccountUser = {
+  id: string;
+  email: string;
+};
+
+export type AccountStore = {
+  findOrCreateUser(email: string): Promise<AccountUser>;
+  saveLoginToken(tokenHash: string, email: string, expiresAt: number): Promise<void>;
+  consumeLoginToken(tokenHash: string, now: number): Promise<string | null>;
+  saveSession(tokenHash: string, userId: string, expiresAt: number): Promise<void>;
+  findSessionUser(tokenHash: string, now: number): Promise<AccountUser | null>;
+  deleteSession(tokenHash: string): Promise<void>;
+  listRecords(userId: string): Promise<SyncRecord[]>;
+  putRecords(userId: string, records: SyncRecord[]): Promise<void>;
+};
+
+export type Mailer = {
+  sendLoginLink(email: string, url: string): Promise<void>;
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  ACTION_ITEMS_STORAGE_KEY,
+  ACTION_STORAGE_KEY,
+  LEGACY_ACTION_STORAGE_KEY,
+  actionEffects,
+  actionStateFor,
+  defaultActionItems,
+  loadActionHistory,
+  loadActionItems,
+  mergeActionHistory,
+  saveActionHistory,
+  saveActionItems,
+} from "./action-checklist";
+import type { DailySeverity } from "./symptom-log";
+import { createMemoryStorage } from "./testing/memory-storage";
+
+function day(date: string, severity: number): DailySeverity {
+  return { date, severity, entries: [] };
+}
+
+describe("loadActionHistory", () => {
+  it("files the v1 state under today and writes the v2 key", () => {
+    const storage = createMemoryStorage({
+      [LEGACY_ACTION_STORAGE_KEY]: JSON.stringify({ mask: true, shower: "yes" }),
+    });
+    const history = loadActionHistory(storage, "2026-03-10");
+
+    expect(history).toEqual({ "2026-03-10": { mask: true } });
+    expect(JSON.parse(storage.getItem(ACTION_STORAGE_KEY) ?? "{}")).toEqual({
+      version: 2,
+      days: history,
+    });
+    // Once migrated, a later day does not re-file the legacy state.
+    expect(loadActionHistory(storage, "2026-03-11")).toEqual(history);
+  });
+
+  it("round-trips v2 history and drops non-boolean values", () => {
+    const storage = createMemoryStorage();
+    saveActionHistory(storage, { "2026-03-01": { mask: true, glasses: false } });
+    expect(loadActionHistory(storage, "2026-03-10")).toEqual({
+      "2026-03-01": { mask: true, glasses: false },
+    });
+
+    storage.setItem(
+      ACTION_STORAGE_KEY,
+      JSON.stringify({ version: 2, days: { "2026-03-01": { mask: 1, shower: true } } }),
+    );
+    expect(loadActionHistory(storage, "2026-03-10")).toEqual({ "2026-03-01": { shower: true } });
+  });
+
+  it("returns an empty history when nothing is stored", () => {
+    expect(loadActionHistory(createMemoryStorage(), "2026-03-10")).toEqual({});
+  });
+});
+
+describe("actionStateFor", () => {
+  it("starts each day unchecked", () => {
+    const history = { "2026-03-01": { mask: true } };
+    expect(actionStateFor(history, "2026-03-01")).toEqual({ mask: true });
+    expect(actionStateFor(history, "2026-03-02")).toEqual({});
+  });
+});
+
+describe("mergeActionHistory", () => {
+  it("keeps an item done if either side did it and adds new days", () => {
+    const merged = mergeActionHistory(
+      { "2026-03-01": { mask: true, glasses: false } },
+      {
+        "2026-03-01": { mask: false, glasses: true, shower: false },
+        "2026-03-02": { mask: true, bogus: "yes" } as unknown as Record<string, boolean>,
+      },
+    );
+    expect(merged).toEqual({
+      "2026-03-01": { mask: true, glasses: true, shower: false },
+      "2026-03-02": { mask: true },
+    });
+  });
+});
+
+describe("actionEffects", () => {
+  const items = defaultActionItems.slice(0, 2);
+
+  it("compares severity on days an item was done against days it was skipped", () => {
+    const history = {
+      "2026-03-01": { mask: true, glasses: true },
+      "2026-03-02": { mask: false },
+      "2026-03-03": {},
+    };
+    const days = [
+      day("2026-03-01", 2),
+      day("2026-03-02", 6),
+      day("2026-03-03", 5),
+      day("2026-03-04", 9),
+    ];
+
+    expect(actionEffects(history, days, items)).toEqual([
+      {
+        key: "mask",
+        label: items[0].label,
+        doneAverage: 2,
+        skippedAverage: 5.5,
+        doneDays: 1,
+        skippedDays: 2,
+      },
+      {
+        key: "glasses",
+        label: items[1].label,
+        doneAverage: 2,
+        skippedAverage: 5.5,
+        doneDays: 1,
+        skippedDays: 2,
+      },
+    ]);
+  });
+
+  it("reports no averages for days without a checklist", () => {
+    const [effect] = actionEffects({}, [day("2026-03-01", 4)], items);
+    expect(effect).toMatchObject({
+      doneAverage: null,
+      skippedAverage: null,
+      doneDays: 0,
+      skippedDays: 0,
+    });
+  });
+});
+
+describe("loadActionItems", () => {
+  it("returns the defaults when nothing is stored", () => {
+    expect(loadActionItems(createMemoryStorage())).toBe(defaultActionItems);
+  });
+
+  it("round-trips saved items", () => {
+    const storage = createMemoryStorage();
+    const items = [{ key: "tea", label: "甜茶を飲む", recommendedFrom: null }];
+    saveActionItems(storage, items);
+    expect(loadActionItems(storage)).toEqual(items);
+  });
+
+  it("keeps only valid, unique items", () => {
+    const storage = createMemoryStorage({
+      [ACTION_ITEMS_STORAGE_KEY]: JSON.stringify([
+        { key: "mask", label: "マスク", recommendedFrom: "高い", extra: 1 },
+        { key: "mask", label: "重複", recommendedFrom: null },
+        { key: "", label: "空", recommendedFrom: null },
+        { key: "x", label: 3, recommendedFrom: null },
+        { key: "y", label: "不明なレベル", recommendedFrom: "とても高い" },
+        "shower",
+      ]),
+    });
+    expect(loadActionItems(storage)).toEqual([
+      { key: "mask", label: "マスク", recommendedFrom: "高い" },
+    ]);
+  });
+
+  it.each([["{}"], ["[]"], ['[{"key":1}]']])("falls back to the defaults for %s", (raw) => {
+    const storage = createMemoryStorage({ [ACTION_ITEMS_STORAGE_KEY]: raw });
+    expect(loadActionItems(storage)).toBe(defaultActionItems);
+  });
+});
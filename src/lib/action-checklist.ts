@@ -0,0 +1,184 @@
+import { isLevelAtLeast, riskLevels, type RiskLevel } from "./scoring";
+import { averageSeverity, type DailySeverity } from "./symptom-log";
+
+export const ACTION_STORAGE_KEY = "kafun-action-check-v2";
+export const LEGACY_ACTION_STORAGE_KEY = "kafun-action-check-v1";
+export const ACTION_ITEMS_STORAGE_KEY = "kafun-action-items-v1";
+export const REQUIRED_ACTION_LEVEL: RiskLevel = "高い";
+
+export type ActionItem = {
+  key: string;
+  label: string;
+  recommendedFrom: RiskLevel | null;
+};
+
+export type ActionState = Record<string, boolean>;
+
+export type ActionHistory = Record<string, ActionState>;
+
+export type PrioritizedAction = ActionItem & {
+  recommended: boolean;
+  required: boolean;
+};
+
+export type ActionEffect = {
+  key: string;
+  label: string;
+  doneAverage: number | null;
+  skippedAverage: number | null;
+  doneDays: number;
+  skippedDays: number;
+};
+
+type StoredActionHistory = {
+  version: number;
+  days: ActionHistory;
+};
+
+export const defaultActionItems: ActionItem[] = [
+  { key: "mask", label: "高性能マスクを着用する", recommendedFrom: "やや高い" },
+  { key: "glasses", label: "メガネ・ゴーグルで目を守る", recommendedFrom: "高い" },
+  { key: "laundryInside", label: "洗濯物は室内干しにする", recommendedFrom: "高い" },
+  { key: "shower", label: "帰宅後にシャワーで花粉を落とす", recommendedFrom: "やや高い" },
+  { key: "roomClean", label: "寝室の掃除・空気清浄を行う", recommendedFrom: "非常に高い" },
+];
+
+export function sanitizeActionState(raw: unknown): ActionState {
+  const state = (raw ?? {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(state).filter(([, value]) => typeof value === "boolean"),
+  ) as ActionState;
+}
+
+// v1 kept a single state with no date. It is filed under the day it is first
+// loaded, since that is the only day it can still describe.
+export function loadActionHistory(storage: Storage, today: string): ActionHistory {
+  const raw = storage.getItem(ACTION_STORAGE_KEY);
+  if (raw) {
+    const stored = JSON.parse(raw) as StoredActionHistory;
+    return Object.fromEntries(
+      Object.entries(stored.days ?? {}).map(([date, state]) => [
+        date,
+        sanitizeActionState(state),
+      ]),
+    );
+  }
+
+  const legacy = storage.getItem(LEGACY_ACTION_STORAGE_KEY);
+  if (!legacy) return {};
+
+  const history = { [today]: sanitizeActionState(JSON.parse(legacy)) };
+  saveActionHistory(storage, history);
+  return history;
+}
+
+export function saveActionHistory(storage: Storage, history: ActionHistory) {
+  const stored: StoredActionHistory = { version: 2, days: history };
+  storage.setItem(ACTION_STORAGE_KEY, JSON.stringify(stored));
+}
+
+function isActionItem(value: unknown): value is ActionItem {
+  const item = value as Partial<ActionItem> | null;
+  return (
+    typeof item?.key === "string" &&
+    item.key.length > 0 &&
+    typeof item.label === "string" &&
+    (item.recommendedFrom === null || riskLevels.includes(item.recommendedFrom as RiskLevel))
+  );
+}
+
+export function loadActionItems(storage: Storage): ActionItem[] {
+  const raw = storage.getItem(ACTION_ITEMS_STORAGE_KEY);
+  if (!raw) return defaultActionItems;
+  const stored = JSON.parse(raw) as unknown;
+  const items: ActionItem[] = [];
+  for (const item of Array.isArray(stored) ? stored.filter(isActionItem) : []) {
+    if (items.some((known) => known.key === item.key)) continue;
+    items.push({ key: item.key, label: item.label, recommendedFrom: item.recommendedFrom });
+  }
+  return items.length > 0 ? items : defaultActionItems;
+}
+
+export function saveActionItems(storage: Storage, items: ActionItem[]) {
+  storage.setItem(ACTION_ITEMS_STORAGE_KEY, JSON.stringify(items));
+}
+
+export function createActionKey() {
+  return `action-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function moveActionItem(items: ActionItem[], key: string, offset: number) {
+  const from = items.findIndex((item) => item.key === key);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export function actionStateFor(history: ActionHistory, date: string): ActionState {
+  return history[date] ?? {};
+}
+
+export function completionRate(state: ActionState, items: ActionItem[]) {
+  if (items.length === 0) return 0;
+  const done = items.filter((item) => state[item.key]).length;
+  return Math.round((done / items.length) * 100);
+}
+
+// Recommended items only move to the top once the day reaches the required level,
+// so the user's own order stays intact on calmer days.
+export function prioritizeActions(
+  items: ActionItem[],
+  level: RiskLevel | null,
+): PrioritizedAction[] {
+  const urgent = level !== null && isLevelAtLeast(level, REQUIRED_ACTION_LEVEL);
+  const list = items.map((item) => {
+    const recommended =
+      level !== null &&
+      item.recommendedFrom !== null &&
+      isLevelAtLeast(level, item.recommendedFrom);
+    return { ...item, recommended, required: urgent && recommended };
+  });
+  return [...list.filter((item) => item.required), ...list.filter((item) => !item.required)];
+}
+
+export function mergeActionHistory(current: ActionHistory, incoming: ActionHistory) {
+  const merged = { ...current };
+  for (const [date, state] of Object.entries(incoming)) {
+    const existing = merged[date] ?? {};
+    const next = { ...existing };
+    for (const [key, done] of Object.entries(sanitizeActionState(state))) {
+      next[key] = Boolean(existing[key]) || done;
+    }
+    merged[date] = next;
+  }
+  return merged;
+}
+
+export function mergeActionItems(current: ActionItem[], incoming: ActionItem[]) {
+  const known = new Set(current.map((item) => item.key));
+  return [...current, ...incoming.filter((item) => !known.has(item.key))];
+}
+
+export function actionEffects(
+  history: ActionHistory,
+  days: DailySeverity[],
+  items: ActionItem[],
+): ActionEffect[] {
+  const tracked = days.filter((day) => history[day.date]);
+
+  return items.map((item) => {
+    const done = tracked.filter((day) => history[day.date][item.key]);
+    const skipped = tracked.filter((day) => !history[day.date][item.key]);
+    return {
+      key: item.key,
+      label: item.label,
+      doneAverage: averageSeverity(done),
+      skippedAverage: averageSeverity(skipped),
+      doneDays: done.length,
+      skippedDays: skipped.length,
+    };
+  });
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { isPushServiceEndpoint, parseAlertSubscriptionRequest } from "./alert-settings";
+
+const request = {
+  subscription: {
+    endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+    keys: { p256dh: "key", auth: "auth" },
+  },
+  threshold: "高い",
+  notifyAt: "07:00",
+  locations: [{ name: "東京", lat: 35.68, lon: 139.77 }],
+};
+
+describe("isPushServiceEndpoint", () => {
+  it.each([
+    "https://fcm.googleapis.com/fcm/send/abc",
+    "https://updates.push.services.mozilla.com/wpush/v2/abc",
+    "https://wns2-par02p.notify.windows.com/w/?token=abc",
+    "https://web.push.apple.com/abc",
+    "https://api.push.apple.com/abc",
+  ])("accepts %s", (endpoint) => {
+    expect(isPushServiceEndpoint(endpoint)).toBe(true);
+  });
+
+  it.each([
+    "http://fcm.googleapis.com/fcm/send/abc",
+    "https://fcm.googleapis.com:8443/fcm/send/abc",
+    "https://example.com/push",
+    "https://fcm.googleapis.com.example.com/push",
+    "https://evilpush.apple.com/abc",
+    "https://169.254.169.254/latest",
+    "not a url",
+  ])("rejects %s", (endpoint) => {
+    expect(isPushServiceEndpoint(endpoint)).toBe(false);
+  });
+});
+
+describe("parseAlertSubscriptionRequest", () => {
+  it("keeps only the known fields", () => {
+    expect(parseAlertSubscriptionRequest({ ...request, extra: true })).toEqual(request);
+  });
+
+  it("rejects endpoints outside the push services", () => {
+    const subscription = { ...request.subscription, endpoint: "https://example.com/push" };
+    expect(parseAlertSubscriptionRequest({ ...request, subscription })).toBeNull();
+  });
+
+  it.each([
+    [{ name: "東京", lat: "35", lon: 139.77 }],
+    [{ name: "東京", lat: 35.68, lon: "" }],
+    [{ name: "東京", lat: null, lon: 139.77 }],
+    [{ name: "東京", lat: 91, lon: 139.77 }],
+    [{ name: "東京", lat: Number.NaN, lon: 139.77 }],
+  ])("rejects the location %o", (location) => {
+    expect(parseAlertSubscriptionRequest({ ...request, locations: [location] })).toBeNull();
+  });
+});
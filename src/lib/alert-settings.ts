@@ -0,0 +1,113 @@
+import { isTimeString } from "./date";
+import type { GeoPoint } from "./geo";
+import { MAX_SAVED_LOCATIONS } from "./saved-locations";
+import { riskLevels, type RiskLevel } from "./scoring";
+
+export const ALERT_SETTINGS_STORAGE_KEY = "kafun-alert-settings-v1";
+
+export type AlertSettings = {
+  threshold: RiskLevel;
+  notifyAt: string;
+};
+
+export type AlertLocation = GeoPoint & {
+  name: string;
+};
+
+export type PushSubscriptionPayload = {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+};
+
+export type AlertSubscriptionRequest = AlertSettings & {
+  subscription: PushSubscriptionPayload;
+  locations: AlertLocation[];
+};
+
+// Browsers only hand out endpoints on these push services; anything else would
+// make the server post to an arbitrary host.
+const pushServiceHosts = ["fcm.googleapis.com", "web.push.apple.com"];
+const pushServiceDomains = [
+  ".push.services.mozilla.com",
+  ".notify.windows.com",
+  ".push.apple.com",
+];
+
+export function isPushServiceEndpoint(endpoint: string) {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  return (
+    url.protocol === "https:" &&
+    url.port === "" &&
+    (pushServiceHosts.includes(url.hostname) ||
+      pushServiceDomains.some((domain) => url.hostname.endsWith(domain)))
+  );
+}
+
+export const defaultAlertSettings: AlertSettings = {
+  threshold: "非常に高い",
+  notifyAt: "07:00",
+};
+
+export function loadAlertSettings(storage: Storage): AlertSettings {
+  const raw = storage.getItem(ALERT_SETTINGS_STORAGE_KEY);
+  if (!raw) return defaultAlertSettings;
+  const stored = JSON.parse(raw) as Partial<AlertSettings>;
+  return {
+    threshold: riskLevels.includes(stored.threshold as RiskLevel)
+      ? (stored.threshold as RiskLevel)
+      : defaultAlertSettings.threshold,
+    notifyAt:
+      typeof stored.notifyAt === "string" && isTimeString(stored.notifyAt)
+        ? stored.notifyAt
+        : defaultAlertSettings.notifyAt,
+  };
+}
+
+export function saveAlertSettings(storage: Storage, settings: AlertSettings) {
+  storage.setItem(ALERT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function parseAlertSubscriptionRequest(raw: unknown): AlertSubscriptionRequest | null {
+  const value = (raw ?? {}) as Partial<AlertSubscriptionRequest>;
+  const subscription = value.subscription;
+  const locations = Array.isArray(value.locations) ? value.locations : [];
+
+  const valid =
+    typeof subscription?.endpoint === "string" &&
+    subscription.endpoint.length <= 1000 &&
+    isPushServiceEndpoint(subscription.endpoint) &&
+    typeof subscription.keys?.p256dh === "string" &&
+    typeof subscription.keys?.auth === "string" &&
+    riskLevels.includes(value.threshold as RiskLevel) &&
+    typeof value.notifyAt === "string" &&
+    isTimeString(value.notifyAt) &&
+    locations.length > 0 &&
+    locations.length <= MAX_SAVED_LOCATIONS &&
+    locations.every(
+      (location) =>
+        typeof location?.name === "string" &&
+        Number.isFinite(location.lat) &&
+        Number.isFinite(location.lon) &&
+        Math.abs(location.lat) <= 90 &&
+        Math.abs(location.lon) <= 180,
+    );
+  if (!valid) return null;
+
+  return {
+    subscription: {
+      endpoint: subscription.endpoint,
+      keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+    },
+    threshold: value.threshold as RiskLevel,
+    notifyAt: value.notifyAt as string,
+    locations: locations.map(({ name, lat, lon }) => ({ name: name.slice(0, 40), lat, lon })),
+  };
+}
@@ -0,0 +1,31 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CacheEntry, CacheStore } from "./types";
+
+export function createFileStore(directory: string): CacheStore {
+  function filePath(key: string) {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(directory, `${hash}.json`);
+  }
+
+  return {
+    async get<T>(key: string) {
+      try {
+        const raw = await readFile(filePath(key), "utf8");
+        const parsed = JSON.parse(raw) as CacheEntry<T> & { key?: string };
+        if (parsed.key !== key) return null;
+        return { value: parsed.value, storedAt: parsed.storedAt };
+      } catch {
+        return null;
+      }
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath(key), JSON.stringify({ key, ...entry }), "utf8");
+    },
+    async delete(key: string) {
+      await rm(filePath(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,13 @@
+import { createFileStore } from "./file-store";
+import { createMemoryStore } from "./memory-store";
+import type { CacheStore } from "./types";
+
+export { createFileStore } from "./file-store";
+export { createMemoryStore } from "./memory-store";
+export { createSwrCache, type SwrCache } from "./swr";
+export type { CacheEntry, CacheStore, SwrOptions } from "./types";
+
+export function createDefaultCacheStore(): CacheStore {
+  const directory = process.env.OPEN_METEO_CACHE_DIR;
+  return directory ? createFileStore(directory) : createMemoryStore();
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryStore } from "./memory-store";
+import { createSwrCache } from "./swr";
+
+const options = { ttlMs: 10_000, staleMs: 60_000 };
+
+describe("createSwrCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-10T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("loads once and serves fresh entries from the store", async () => {
+    const cache = createSwrCache(createMemoryStore(), options);
+    const loader = vi.fn(async () => "first");
+
+    expect(await cache.get("key", loader)).toBe("first");
+    vi.advanceTimersByTime(5_000);
+    expect(await cache.get("key", loader)).toBe("first");
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one in-flight load between concurrent callers", async () => {
+    const cache = createSwrCache(createMemoryStore(), options);
+    const loader = vi.fn(async () => "value");
+
+    const results = await Promise.all([cache.get("key", loader), cache.get("key", loader)]);
+    expect(results).toEqual(["value", "value"]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns a stale entry and refreshes it in the background", async () => {
+    const cache = createSwrCache(createMemoryStore(), options);
+    await cache.get("key", async () => "old");
+
+    vi.advanceTimersByTime(20_000);
+    const loader = vi.fn(async () => "new");
+    expect(await cache.get("key", loader)).toBe("old");
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    await vi.waitFor(async () => {
+      expect(await cache.get("key", async () => "unused")).toBe("new");
+    });
+  });
+
+  it("waits for a reload once the stale window has passed", async () => {
+    const cache = createSwrCache(createMemoryStore(), options);
+    await cache.get("key", async () => "old");
+
+    vi.advanceTimersByTime(80_000);
+    expect(await cache.get("key", async () => "new")).toBe("new");
+  });
+
+  it("falls back to an expired entry when the reload fails", async () => {
+    const cache = createSwrCache(createMemoryStore(), options);
+    await cache.get("key", async () => "old");
+
+    vi.advanceTimersByTime(80_000);
+    const failing = async (): Promise<string> => {
+      throw new Error("upstream down");
+    };
+    expect(await cache.get("key", failing)).toBe("old");
+    await expect(cache.get("other", failing)).rejects.toThrow("upstream down");
+  });
+});
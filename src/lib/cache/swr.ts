@@ -0,0 +1,50 @@
+import type { CacheStore, SwrOptions } from "./types";
+
+export type SwrCache = {
+  get<T>(key: string, loader: () => Promise<T>): Promise<T>;
+};
+
+export function createSwrCache(store: CacheStore, options: SwrOptions): SwrCache {
+  const inflight = new Map<string, Promise<unknown>>();
+
+  function refresh<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const pending = inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = loader()
+      .then(async (value) => {
+        await store.set(key, { value, storedAt: Date.now() });
+        return value;
+      })
+      .finally(() => {
+        inflight.delete(key);
+      });
+
+    inflight.set(key, promise);
+    return promise;
+  }
+
+  return {
+    async get<T>(key: string, loader: () => Promise<T>) {
+      const entry = await store.get<T>(key);
+      const age = entry ? Date.now() - entry.storedAt : Number.POSITIVE_INFINITY;
+
+      if (entry && age < options.ttlMs) {
+        return entry.value;
+      }
+
+      if (entry && age < options.ttlMs + options.staleMs) {
+        void refresh(key, loader).catch(() => undefined);
+        return entry.value;
+      }
+
+      try {
+        return await refresh(key, loader);
+      } catch (error) {
+        // Upstream is down: an expired entry is still better than no data.
+        if (entry) return entry.value;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,15 @@
+export type CacheEntry<T = unknown> = {
+  value: T;
+  storedAt: number;
+};
+
+export type CacheStore = {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+export type SwrOptions = {
+  ttlMs: number;
+  staleMs: number;
+};
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  EXPORT_FORMAT,
+  createExportBundle,
+  entriesToCsv,
+  mergeEntries,
+  mergeMedications,
+  parseImportBundle,
+} from "./data-transfer";
+import type { Medication } from "./medication";
+import type { SymptomEntry } from "./symptom-log";
+import { logContext } from "./testing/log-context";
+
+const medication: Medication = {
+  id: "med-1",
+  name: "アレグラ",
+  kind: "antihistamine",
+  dose: "1錠",
+  schedule: ["morning"],
+  createdAt: "2026-03-01T00:00:00.000Z",
+};
+
+function entry(date: string, patch: Partial<SymptomEntry> = {}): SymptomEntry {
+  return {
+    id: `${date}:evening`,
+    date,
+    timeOfDay: "evening",
+    severity: 5,
+    symptoms: null,
+    tookMedicine: false,
+    medications: undefined,
+    memo: "",
+    context: undefined,
+    updatedAt: `${date}T12:00:00.000Z`,
+    ...patch,
+  };
+}
+
+function bundle(patch: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    ...createExportBundle(
+      [entry("2026-03-02", { context: logContext() })],
+      { "2026-03-02": { mask: true } },
+      [{ key: "mask", label: "マスク", recommendedFrom: "高い" }],
+      [medication],
+    ),
+    ...patch,
+  });
+}
+
+describe("parseImportBundle", () => {
+  it("round-trips an export", () => {
+    const data = parseImportBundle(bundle());
+    expect(data.entries).toEqual([entry("2026-03-02", { context: logContext() })]);
+    expect(data.checklistHistory).toEqual({ "2026-03-02": { mask: true } });
+    expect(data.medications).toEqual([medication]);
+  });
+
+  it("rejects files that are not exports", () => {
+    expect(() => parseImportBundle("{")).toThrow("JSON として読み込めませんでした。");
+    expect(() => parseImportBundle(JSON.stringify({ format: "other" }))).toThrow(
+      "エクスポートファイルではありません",
+    );
+    expect(() => parseImportBundle(bundle({ version: 99 }))).toThrow("対応していません");
+  });
+
+  it("reports invalid entries with their position", () => {
+    const text = bundle({
+      symptomLog: { version: 2, entries: [{ date: "3/2", severity: 12 }] },
+    });
+    expect(() => parseImportBundle(text)).toThrow(
+      "symptomLog.entries[0].date は YYYY-MM-DD 形式で指定してください / symptomLog.entries[0].severity は 0〜10 の数値で指定してください",
+    );
+  });
+
+  it.each([
+    ["createdAt", { createdAt: undefined }, "medications[0].createdAt"],
+    ["kind", { kind: "pill" }, "medications[0].kind"],
+    ["dose", { dose: 1 }, "medications[0].dose"],
+    ["schedule", { schedule: ["noon"] }, "medications[0].schedule"],
+  ])("rejects a medication with an invalid %s", (_, patch, message) => {
+    const text = bundle({ medications: [{ ...medication, ...patch }] });
+    expect(() => parseImportBundle(text)).toThrow(message);
+  });
+
+  it("drops an incomplete context instead of importing it", () => {
+    const text = bundle({
+      symptomLog: { version: 2, entries: [{ ...entry("2026-03-02"), context: {} }] },
+    });
+    expect(parseImportBundle(text).entries[0].context).toBeUndefined();
+  });
+
+  it("reads the single-day checklist of v1 files", () => {
+    const text = bundle({
+      version: 1,
+      checklistHistory: undefined,
+      checklist: { date: "2026-03-01", items: { mask: true } },
+    });
+    expect(parseImportBundle(text).checklistHistory).toEqual({ "2026-03-01": { mask: true } });
+  });
+
+  it("rejects checklist values that are not booleans", () => {
+    const text = bundle({ checklistHistory: { "2026-03-02": { mask: "yes" } } });
+    expect(() => parseImportBundle(text)).toThrow("checklistHistory.2026-03-02");
+  });
+
+  it("carries the expected format marker", () => {
+    expect(JSON.parse(bundle()).format).toBe(EXPORT_FORMAT);
+  });
+});
+
+describe("mergeEntries", () => {
+  it("adds new entries and keeps the more recently updated one", () => {
+    const current = [entry("2026-03-01"), entry("2026-03-02", { severity: 2 })];
+    const incoming = [
+      entry("2026-03-02", { severity: 8, updatedAt: "2026-03-03T00:00:00.000Z" }),
+      entry("2026-03-03"),
+    ];
+    const result = mergeEntries(current, incoming);
+    expect(result.added).toBe(1);
+    expect(result.updated).toBe(1);
+    expect(result.entries.map((item) => [item.date, item.severity])).toEqual([
+      ["2026-03-03", 5],
+      ["2026-03-02", 8],
+      ["2026-03-01", 5],
+    ]);
+  });
+
+  it("keeps captured context from whichever side has it", () => {
+    const context = logContext();
+    const newer = entry("2026-03-02", { updatedAt: "2026-03-05T00:00:00.000Z" });
+    expect(mergeEntries([entry("2026-03-02", { context })], [newer]).entries[0].context).toEqual(
+      context,
+    );
+    const older = entry("2026-03-02", { context });
+    expect(mergeEntries([entry("2026-03-02")], [older]).entries[0].context).toEqual(context);
+  });
+});
+
+describe("mergeMedications", () => {
+  it("appends medications with unknown ids only", () => {
+    const other = { ...medication, id: "med-2", name: "点鼻薬" };
+    expect(mergeMedications([medication], [{ ...medication, name: "別名" }, other])).toEqual([
+      medication,
+      other,
+    ]);
+  });
+});
+
+describe("entriesToCsv", () => {
+  it("quotes cells with commas and names the medications taken", () => {
+    const csv = entriesToCsv(
+      [
+        entry("2026-03-02", {
+          memo: 'くしゃみ, "ひどい"',
+          medications: [{ medicationId: "med-1", takenAt: "08:00" }],
+        }),
+      ],
+      [medication],
+    );
+    const [header, row] = csv.split("\r\n");
+    expect(header.startsWith("日付,時間帯,つらさ")).toBe(true);
+    expect(row).toContain('アレグラ 08:00,"くしゃみ, ""ひどい"""');
+  });
+});
@@ -0,0 +1,276 @@
+import type { ActionHistory, ActionItem } from "./action-checklist";
+import { isDateString } from "./date";
+import { isMedicationKind, isTimeOfDay, type Medication } from "./medication";
+import { pollenCatalog, riskLevels, type RiskLevel } from "./scoring";
+import {
+  SYMPTOM_LOG_VERSION,
+  migrateSymptomLog,
+  sortEntries,
+  symptomItems,
+  timeOfDayLabels,
+  type SymptomEntry,
+} from "./symptom-log";
+
+export const EXPORT_FORMAT = "kafun-condition-navi";
+export const EXPORT_VERSION = 2;
+
+export type ExportBundle = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  symptomLog: { version: number; entries: SymptomEntry[] };
+  checklistHistory: ActionHistory;
+  actionItems: ActionItem[];
+  medications: Medication[];
+};
+
+export type ImportedData = {
+  entries: SymptomEntry[];
+  checklistHistory: ActionHistory;
+  actionItems: ActionItem[];
+  medications: Medication[];
+};
+
+export type MergeResult = {
+  entries: SymptomEntry[];
+  added: number;
+  updated: number;
+};
+
+export function createExportBundle(
+  entries: SymptomEntry[],
+  checklistHistory: ActionHistory,
+  actionItems: ActionItem[],
+  medications: Medication[],
+): ExportBundle {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    symptomLog: { version: SYMPTOM_LOG_VERSION, entries },
+    checklistHistory,
+    actionItems,
+    medications,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateEntry(raw: unknown, index: number) {
+  const label = `symptomLog.entries[${index}]`;
+  if (!isRecord(raw)) return [`${label} がオブジェクトではありません`];
+
+  const errors: string[] = [];
+  if (typeof raw.date !== "string" || !isDateString(raw.date)) {
+    errors.push(`${label}.date は YYYY-MM-DD 形式で指定してください`);
+  }
+  const severity = Number(raw.severity);
+  if (!Number.isFinite(severity) || severity < 0 || severity > 10) {
+    errors.push(`${label}.severity は 0〜10 の数値で指定してください`);
+  }
+  if (raw.symptoms !== undefined && raw.symptoms !== null && !isRecord(raw.symptoms)) {
+    errors.push(`${label}.symptoms の形式が不正です`);
+  }
+  return errors;
+}
+
+function validateMedication(raw: unknown, index: number) {
+  const label = `medications[${index}]`;
+  if (!isRecord(raw)) return [`${label} がオブジェクトではありません`];
+  if (typeof raw.id !== "string" || typeof raw.name !== "string") {
+    return [`${label} には id と name が必要です`];
+  }
+
+  const errors: string[] = [];
+  if (!isMedicationKind(raw.kind)) errors.push(`${label}.kind の種類が不正です`);
+  if (typeof raw.dose !== "string") errors.push(`${label}.dose は文字列で指定してください`);
+  if (!Array.isArray(raw.schedule) || !raw.schedule.every(isTimeOfDay)) {
+    errors.push(`${label}.schedule は morning / evening の配列で指定してください`);
+  }
+  if (typeof raw.createdAt !== "string" || Number.isNaN(Date.parse(raw.createdAt))) {
+    errors.push(`${label}.createdAt は日時で指定してください`);
+  }
+  return errors;
+}
+
+function validateActionItem(raw: unknown, index: number) {
+  const label = `actionItems[${index}]`;
+  if (!isRecord(raw) || typeof raw.key !== "string" || typeof raw.label !== "string") {
+    return [`${label} には key と label が必要です`];
+  }
+  if (raw.recommendedFrom !== null && !riskLevels.includes(raw.recommendedFrom as RiskLevel)) {
+    return [`${label}.recommendedFrom はリスクレベルか null で指定してください`];
+  }
+  return [];
+}
+
+function validateChecklistDay(date: string, raw: unknown) {
+  const label = `checklistHistory.${date}`;
+  if (!isDateString(date)) return [`${label} の日付は YYYY-MM-DD 形式で指定してください`];
+  if (!isRecord(raw) || !Object.values(raw).every((value) => typeof value === "boolean")) {
+    return [`${label} の値は true / false で指定してください`];
+  }
+  return [];
+}
+
+// v1 files carried only the current day's checklist as { date, items }.
+function readChecklistHistory(raw: Record<string, unknown>): unknown {
+  if (raw.version === 1) {
+    const checklist = raw.checklist;
+    if (checklist === undefined) return {};
+    return isRecord(checklist) && typeof checklist.date === "string"
+      ? { [checklist.date]: checklist.items }
+      : null;
+  }
+  return raw.checklistHistory ?? {};
+}
+
+export function parseImportBundle(text: string): ImportedData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("JSON として読み込めませんでした。");
+  }
+
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    throw new Error("花粉コンディション・ナビのエクスポートファイルではありません。");
+  }
+  if (typeof raw.version !== "number" || raw.version > EXPORT_VERSION) {
+    throw new Error("このバージョンのファイルには対応していません。");
+  }
+
+  const log = raw.symptomLog;
+  if (!isRecord(log) || typeof log.version !== "number" || !Array.isArray(log.entries)) {
+    throw new Error("symptomLog の形式が不正です。");
+  }
+  if (log.version > SYMPTOM_LOG_VERSION) {
+    throw new Error("新しい形式の症状ログには対応していません。");
+  }
+
+  const medications = raw.medications ?? [];
+  if (!Array.isArray(medications)) {
+    throw new Error("medications は配列で指定してください。");
+  }
+
+  const actionItems = raw.actionItems ?? [];
+  if (!Array.isArray(actionItems)) {
+    throw new Error("actionItems は配列で指定してください。");
+  }
+
+  const checklistHistory = readChecklistHistory(raw);
+  if (!isRecord(checklistHistory)) {
+    throw new Error("チェックリストの形式が不正です。");
+  }
+
+  const errors = [
+    ...log.entries.flatMap(validateEntry),
+    ...medications.flatMap(validateMedication),
+    ...actionItems.flatMap(validateActionItem),
+    ...Object.entries(checklistHistory).flatMap(([date, state]) =>
+      validateChecklistDay(date, state),
+    ),
+  ];
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` ほか${errors.length - 3}件` : "";
+    throw new Error(`${errors.slice(0, 3).join(" / ")}${more}`);
+  }
+
+  return {
+    entries: migrateSymptomLog({ version: log.version, entries: log.entries }),
+    checklistHistory: checklistHistory as ActionHistory,
+    actionItems: actionItems as ActionItem[],
+    medications: medications as Medication[],
+  };
+}
+
+// Entries are keyed by date and time of day. On a conflict the more recently
+// updated entry wins, but captured context survives from whichever side has it.
+export function mergeEntries(current: SymptomEntry[], incoming: SymptomEntry[]): MergeResult {
+  const merged = new Map(current.map((entry) => [entry.id, entry]));
+  let added = 0;
+  let updated = 0;
+
+  for (const entry of incoming) {
+    const existing = merged.get(entry.id);
+    if (!existing) {
+      merged.set(entry.id, entry);
+      added += 1;
+      continue;
+    }
+    if (entry.updatedAt > existing.updatedAt) {
+      merged.set(entry.id, { ...entry, context: entry.context ?? existing.context });
+      updated += 1;
+    } else if (!existing.context && entry.context) {
+      merged.set(entry.id, { ...existing, context: entry.context });
+    }
+  }
+
+  return { entries: sortEntries([...merged.values()]), added, updated };
+}
+
+export function mergeMedications(current: Medication[], incoming: Medication[]) {
+  const known = new Set(current.map((medication) => medication.id));
+  return [...current, ...incoming.filter((medication) => !known.has(medication.id))];
+}
+
+function csvCell(value: string | number | boolean | null | undefined) {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function entriesToCsv(entries: SymptomEntry[], medications: Medication[]) {
+  const names = new Map(medications.map((medication) => [medication.id, medication.name]));
+  const header = [
+    "日付",
+    "時間帯",
+    "つらさ",
+    ...symptomItems.map((item) => item.label),
+    "服薬",
+    "服用した薬",
+    "メモ",
+    "地域",
+    "リスクスコア",
+    "リスクレベル",
+    "気温",
+    "湿度",
+    "風速",
+    "降水量",
+    "PM2.5",
+    "主な花粉",
+  ];
+
+  const rows = entries.map((entry) => {
+    const context = entry.context;
+    return [
+      entry.date,
+      timeOfDayLabels[entry.timeOfDay],
+      entry.severity,
+      ...symptomItems.map((item) => entry.symptoms?.[item.key]),
+      entry.tookMedicine ? "あり" : "なし",
+      (entry.medications ?? [])
+        .map((intake) => {
+          const name = names.get(intake.medicationId) ?? intake.medicationId;
+          return `${name} ${intake.takenAt}`;
+        })
+        .join(" / "),
+      entry.memo,
+      context?.location.name,
+      context?.risk.score,
+      context?.risk.level,
+      context?.weather.temperature,
+      context?.weather.humidity,
+      context?.weather.wind,
+      context?.weather.precipitation,
+      context?.weather.pm25,
+      context?.topPollenTypes
+        .map((id) => pollenCatalog.find((type) => type.id === id)?.name ?? id)
+        .join(" / "),
+    ];
+  });
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
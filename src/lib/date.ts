@@ -0,0 +1,44 @@
+export function toDayLabel(dateString: string) {
+  return new Intl.DateTimeFormat("ja-JP", {
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+  }).format(new Date(dateString));
+}
+
+export function toJstDateString(date: Date) {
+  return new Intl.DateTimeFormat("sv-SE", {
+    timeZone: "Asia/Tokyo",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// Seasonal scoring follows the calendar in Japan, not the server's timezone.
+export function jstMonth(date: Date) {
+  return Number(toJstDateString(date).slice(5, 7));
+}
+
+export function toJstTimeString(date: Date) {
+  return new Intl.DateTimeFormat("ja-JP", {
+    timeZone: "Asia/Tokyo",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).format(date);
+}
+
+export function isDateString(value: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+}
+
+export function addDays(dateString: string, days: number) {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function isTimeString(value: string) {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
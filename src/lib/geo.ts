@@ -0,0 +1,38 @@
+export type GeoPoint = {
+  lat: number;
+  lon: number;
+};
+
+export type LocationOption = GeoPoint & {
+  id: string;
+  name: string;
+};
+
+export function isLocationOption(value: unknown): value is LocationOption {
+  const location = value as Partial<LocationOption> | null;
+  return (
+    typeof location?.id === "string" &&
+    typeof location.name === "string" &&
+    Number.isFinite(location.lat) &&
+    Number.isFinite(location.lon)
+  );
+}
+
+const compassLabels = ["北", "北東", "東", "南東", "南", "南西", "西", "北西"];
+
+export function windDirectionLabel(degrees: number) {
+  const index = Math.round((((degrees % 360) + 360) % 360) / 45) % compassLabels.length;
+  return compassLabels[index];
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export function distanceKm(a: GeoPoint, b: GeoPoint) {
+  const toRad = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,104 @@
+import { createDefaultCacheStore, createSwrCache } from "../cache";
+import type { GeoPoint } from "../geo";
+import { findMunicipality, prefectureNames, prefectureOfCode } from "./municipalities";
+import { normalizePlaceQuery } from "./offline-geocoder";
+import type { GeocodeResult, Geocoder } from "./types";
+
+const ADDRESS_SEARCH_ENDPOINT = "https://msearch.gsi.go.jp/address-search/AddressSearch";
+const REVERSE_ENDPOINT = "https://mreversegeocoder.gsi.go.jp/reverse-geocoder/LonLatToAddress";
+const POSTAL_ENDPOINT = "https://zipcloud.ibsnet.co.jp/api/search";
+const MAX_RESULTS = 8;
+
+const cache = createSwrCache(createDefaultCacheStore(), {
+  ttlMs: 24 * 60 * 60 * 1000,
+  staleMs: 7 * 24 * 60 * 60 * 1000,
+});
+
+type AddressSearchResponse = {
+  geometry: { coordinates: [number, number] };
+  properties: { title: string };
+}[];
+
+type ReverseResponse = {
+  results?: { muniCd: string; lv01Nm: string };
+};
+
+type PostalResponse = {
+  status: number;
+  results: { address1: string; address2: string; address3: string }[] | null;
+};
+
+function fetchJson<T>(url: string): Promise<T> {
+  return cache.get(url, async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`geocoding request failed: ${response.status}`);
+    }
+    return (await response.json()) as T;
+  });
+}
+
+function splitPrefecture(title: string) {
+  const prefecture = prefectureNames.find((name) => title.startsWith(name)) ?? "";
+  return { prefecture, name: title.slice(prefecture.length) || title };
+}
+
+async function searchAddress(query: string): Promise<GeocodeResult[]> {
+  const data = await fetchJson<AddressSearchResponse>(
+    `${ADDRESS_SEARCH_ENDPOINT}?q=${encodeURIComponent(query)}`,
+  );
+  return data.slice(0, MAX_RESULTS).map((item) => {
+    const [lon, lat] = item.geometry.coordinates;
+    return { ...splitPrefecture(item.properties.title), lat, lon, sourceId: "gsi" };
+  });
+}
+
+async function searchPostalCode(postalCode: string): Promise<GeocodeResult[]> {
+  const data = await fetchJson<PostalResponse>(`${POSTAL_ENDPOINT}?zipcode=${postalCode}`);
+  const matches = await Promise.all(
+    (data.results ?? []).map(async (address) => {
+      const [first] = await searchAddress(
+        `${address.address1}${address.address2}${address.address3}`,
+      );
+      if (!first) return [];
+      return [
+        {
+          ...first,
+          prefecture: address.address1,
+          name: `${address.address2}${address.address3}`,
+        },
+      ];
+    }),
+  );
+  return matches.flat();
+}
+
+export function createGsiGeocoder(): Geocoder {
+  return {
+    id: "gsi",
+    name: "国土地理院 ジオコーディング",
+    async search(query) {
+      const text = normalizePlaceQuery(query);
+      if (!text) return [];
+      const postal = text.match(/^(\d{3})-?(\d{4})$/);
+      return postal ? searchPostalCode(`${postal[1]}${postal[2]}`) : searchAddress(text);
+    },
+    async reverse(point: GeoPoint) {
+      const data = await fetchJson<ReverseResponse>(
+        `${REVERSE_ENDPOINT}?lat=${point.lat.toFixed(4)}&lon=${point.lon.toFixed(4)}`,
+      );
+      if (!data.results) return null;
+
+      const code = data.results.muniCd.padStart(5, "0");
+      const municipality = findMunicipality(code);
+      return {
+        name: municipality?.name ?? data.results.lv01Nm,
+        prefecture: municipality?.prefecture ?? prefectureOfCode(code),
+        lat: point.lat,
+        lon: point.lon,
+        municipalityCode: code,
+        sourceId: "gsi",
+      };
+    },
+  };
+}
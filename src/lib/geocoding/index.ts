@@ -0,0 +1,40 @@
+import type { GeoPoint } from "../geo";
+import { createGsiGeocoder } from "./gsi-geocoder";
+import { createOfflineGeocoder } from "./offline-geocoder";
+import type { GeocodeResult, Geocoder } from "./types";
+
+export { createGsiGeocoder } from "./gsi-geocoder";
+export { createOfflineGeocoder, normalizePlaceQuery } from "./offline-geocoder";
+export { findMunicipality, municipalities, prefectureNames } from "./municipalities";
+export type { Municipality } from "./municipalities";
+export type { GeocodeResult, Geocoder } from "./types";
+
+export function createDefaultGeocoders(): Geocoder[] {
+  return [createGsiGeocoder(), createOfflineGeocoder()];
+}
+
+// Geocoders are tried in order; a failing or empty one hands over to the next,
+// which lets the bundled table answer when the online service is unreachable.
+export async function searchPlaces(geocoders: Geocoder[], query: string) {
+  for (const geocoder of geocoders) {
+    try {
+      const results = await geocoder.search(query);
+      if (results.length > 0) return results;
+    } catch {
+      continue;
+    }
+  }
+  return [] as GeocodeResult[];
+}
+
+export async function reversePlace(geocoders: Geocoder[], point: GeoPoint) {
+  for (const geocoder of geocoders) {
+    try {
+      const result = await geocoder.reverse(point);
+      if (result) return result;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { findMunicipality } from "./municipalities";
+
+describe("findMunicipality", () => {
+  it("matches listed codes exactly", () => {
+    expect(findMunicipality("13104")?.name).toBe("新宿区");
+    expect(findMunicipality("27140")?.name).toBe("堺市");
+  });
+
+  it.each([
+    ["27127", "大阪市"],
+    ["27102", "大阪市"],
+    ["27143", "堺市"],
+    ["14118", "横浜市"],
+    ["14137", "川崎市"],
+    ["14153", "相模原市"],
+    ["23116", "名古屋市"],
+    ["26111", "京都市"],
+    ["28111", "神戸市"],
+    ["01110", "札幌市"],
+    ["40136", "福岡市"],
+  ])("maps ward %s to %s", (code, name) => {
+    expect(findMunicipality(code)?.name).toBe(name);
+  });
+
+  it("does not map unknown ordinary municipalities", () => {
+    expect(findMunicipality("27210")).toBeUndefined();
+    expect(findMunicipality("13199")).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+import type { GeoPoint } from "../geo";
+
+export type Municipality = GeoPoint & {
+  code: string;
+  prefecture: string;
+  name: string;
+};
+
+export const prefectureNames = [
+  "北海道",
+  "青森県",
+  "岩手県",
+  "宮城県",
+  "秋田県",
+  "山形県",
+  "福島県",
+  "茨城県",
+  "栃木県",
+  "群馬県",
+  "埼玉県",
+  "千葉県",
+  "東京都",
+  "神奈川県",
+  "新潟県",
+  "富山県",
+  "石川県",
+  "福井県",
+  "山梨県",
+  "長野県",
+  "岐阜県",
+  "静岡県",
+  "愛知県",
+  "三重県",
+  "滋賀県",
+  "京都府",
+  "大阪府",
+  "兵庫県",
+  "奈良県",
+  "和歌山県",
+  "鳥取県",
+  "島根県",
+  "岡山県",
+  "広島県",
+  "山口県",
+  "徳島県",
+  "香川県",
+  "愛媛県",
+  "高知県",
+  "福岡県",
+  "佐賀県",
+  "長崎県",
+  "熊本県",
+  "大分県",
+  "宮崎県",
+  "鹿児島県",
+  "沖縄県",
+];
+
+export function prefectureOfCode(code: string) {
+  return prefectureNames[Number(code.slice(0, 2)) - 1] ?? "";
+}
+
+// Prefectural capitals, designated cities and the Tokyo special wards, located at
+// their city halls. Codes are the JIS X 0402 municipality codes without check digit.
+const rows: [string, string, number, number][] = [
+  ["01100", "札幌市", 43.0621, 141.3544],
+  ["01202", "函館市", 41.7687, 140.7288],
+  ["01204", "旭川市", 43.7706, 142.365],
+  ["02201", "青森市", 40.8246, 140.7406],
+  ["03201", "盛岡市", 39.702, 141.1545],
+  ["04100", "仙台市", 38.2682, 140.8694],
+  ["05201", "秋田市", 39.72, 140.1025],
+  ["06201", "山形市", 38.2554, 140.3396],
+  ["07201", "福島市", 37.7608, 140.4748],
+  ["08201", "水戸市", 36.3659, 140.4711],
+  ["08220", "つくば市", 36.0835, 140.0764],
+  ["09201", "宇都宮市", 36.5551, 139.8828],
+  ["10201", "前橋市", 36.3895, 139.0634],
+  ["11100", "さいたま市", 35.8617, 139.6455],
+  ["11201", "川越市", 35.9251, 139.4858],
+  ["12100", "千葉市", 35.6074, 140.1065],
+  ["12204", "船橋市", 35.6947, 139.9826],
+  ["13101", "千代田区", 35.694, 139.7536],
+  ["13102", "中央区", 35.6707, 139.772],
+  ["13103", "港区", 35.6581, 139.7516],
+  ["13104", "新宿区", 35.6938, 139.7036],
+  ["13105", "文京区", 35.708, 139.7521],
+  ["13106", "台東区", 35.7126, 139.78],
+  ["13107", "墨田区", 35.7107, 139.8015],
+  ["13108", "江東区", 35.673, 139.8171],
+  ["13109", "品川区", 35.6092, 139.7302],
+  ["13110", "目黒区", 35.6415, 139.6982],
+  ["13111", "大田区", 35.5613, 139.716],
+  ["13112", "世田谷区", 35.6464, 139.6532],
+  ["13113", "渋谷区", 35.664, 139.6982],
+  ["13114", "中野区", 35.7074, 139.6638],
+  ["13115", "杉並区", 35.6995, 139.6364],
+  ["13116", "豊島区", 35.7324, 139.7158],
+  ["13117", "北区", 35.7528, 139.7335],
+  ["13118", "荒川区", 35.7361, 139.7834],
+  ["13119", "板橋区", 35.7512, 139.7093],
+  ["13120", "練馬区", 35.7356, 139.6517],
+  ["13121", "足立区", 35.775, 139.8046],
+  ["13122", "葛飾区", 35.7434, 139.8472],
+  ["13123", "江戸川区", 35.7067, 139.8683],
+  ["13201", "八王子市", 35.6664, 139.316],
+  ["14100", "横浜市", 35.4437, 139.638],
+  ["14130", "川崎市", 35.5309, 139.703],
+  ["14150", "相模原市", 35.5714, 139.3733],
+  ["14205", "藤沢市", 35.339, 139.49],
+  ["15100", "新潟市", 37.9162, 139.0364],
+  ["16201", "富山市", 36.6959, 137.2137],
+  ["17201", "金沢市", 36.5613, 136.6562],
+  ["18201", "福井市", 36.0652, 136.2216],
+  ["19201", "甲府市", 35.6622, 138.5684],
+  ["20201", "長野市", 36.6485, 138.1942],
+  ["21201", "岐阜市", 35.4233, 136.7607],
+  ["22100", "静岡市", 34.9756, 138.3828],
+  ["22130", "浜松市", 34.7108, 137.7261],
+  ["23100", "名古屋市", 35.1815, 136.9066],
+  ["24201", "津市", 34.7186, 136.5056],
+  ["25201", "大津市", 35.0045, 135.8686],
+  ["26100", "京都市", 35.0116, 135.7681],
+  ["27100", "大阪市", 34.6937, 135.5023],
+  ["27140", "堺市", 34.5733, 135.483],
+  ["28100", "神戸市", 34.6901, 135.1955],
+  ["28201", "姫路市", 34.8151, 134.6853],
+  ["29201", "奈良市", 34.6851, 135.805],
+  ["30201", "和歌山市", 34.2305, 135.1708],
+  ["31201", "鳥取市", 35.5011, 134.2351],
+  ["32201", "松江市", 35.4681, 133.0484],
+  ["33100", "岡山市", 34.6551, 133.9195],
+  ["34100", "広島市", 34.3853, 132.4553],
+  ["35203", "山口市", 34.1781, 131.4736],
+  ["36201", "徳島市", 34.0703, 134.5548],
+  ["37201", "高松市", 34.3401, 134.0434],
+  ["38201", "松山市", 33.8392, 132.7657],
+  ["39201", "高知市", 33.5597, 133.5311],
+  ["40100", "北九州市", 33.8834, 130.8752],
+  ["40130", "福岡市", 33.5902, 130.4017],
+  ["41201", "佐賀市", 33.2494, 130.2988],
+  ["42201", "長崎市", 32.7503, 129.8777],
+  ["43100", "熊本市", 32.8031, 130.7079],
+  ["44201", "大分市", 33.2382, 131.6126],
+  ["45201", "宮崎市", 31.9111, 131.4239],
+  ["46201", "鹿児島市", 31.5966, 130.5571],
+  ["47201", "那覇市", 26.2124, 127.6809],
+];
+
+export const municipalities: Municipality[] = rows.map(([code, name, lat, lon]) => ({
+  code,
+  prefecture: prefectureOfCode(code),
+  name,
+  lat,
+  lon,
+}));
+
+function isDesignatedCity(item: Municipality) {
+  return item.code[2] === "1" && item.code.endsWith("0") && item.name.endsWith("市");
+}
+
+// Designated cities use xx1x0 codes and number their wards upward from there
+// (大阪市 27100 → 27102–27128, 堺市 27140 → 27141–), so a ward belongs to the
+// closest city code at or below it within the same prefecture.
+export function findMunicipality(code: string) {
+  const exact = municipalities.find((item) => item.code === code);
+  if (exact || code[2] !== "1") return exact;
+  return municipalities
+    .filter(
+      (item) =>
+        isDesignatedCity(item) && item.code.slice(0, 3) === code.slice(0, 3) && item.code < code,
+    )
+    .reduce<Municipality | undefined>(
+      (best, item) => (!best || item.code > best.code ? item : best),
+      undefined,
+    );
+}
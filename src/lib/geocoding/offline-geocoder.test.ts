@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createOfflineGeocoder } from "./offline-geocoder";
+
+describe("createOfflineGeocoder reverse", () => {
+  const geocoder = createOfflineGeocoder();
+
+  it("names a point after a listed municipality close by", async () => {
+    expect(await geocoder.reverse({ lat: 35.69, lon: 139.7 })).toEqual({
+      name: "新宿区",
+      prefecture: "東京都",
+      lat: 35.69,
+      lon: 139.7,
+      municipalityCode: "13104",
+      sourceId: "offline",
+    });
+  });
+
+  it("falls back to the prefecture away from the listed municipalities", async () => {
+    // Nikko, about 25 km from Utsunomiya.
+    expect(await geocoder.reverse({ lat: 36.72, lon: 139.7 })).toEqual({
+      name: "栃木県",
+      prefecture: "栃木県",
+      lat: 36.72,
+      lon: 139.7,
+      sourceId: "offline",
+    });
+  });
+
+  it("gives up far from every listed municipality", async () => {
+    expect(await geocoder.reverse({ lat: 30, lon: 135 })).toBeNull();
+  });
+});
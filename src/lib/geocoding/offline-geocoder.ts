@@ -0,0 +1,57 @@
+import { distanceKm, type GeoPoint } from "../geo";
+import { municipalities, type Municipality } from "./municipalities";
+import type { GeocodeResult, Geocoder } from "./types";
+
+const MAX_RESULTS = 8;
+// The table only lists larger cities, so a point is named after one only when
+// it is close by; further out only the prefecture is a safe guess.
+const MAX_REVERSE_DISTANCE_KM = 10;
+const MAX_PREFECTURE_DISTANCE_KM = 40;
+
+function toResult(municipality: Municipality): GeocodeResult {
+  return {
+    name: municipality.name,
+    prefecture: municipality.prefecture,
+    lat: municipality.lat,
+    lon: municipality.lon,
+    municipalityCode: municipality.code,
+    sourceId: "offline",
+  };
+}
+
+export function normalizePlaceQuery(query: string) {
+  return query.normalize("NFKC").replace(/\s+/g, "").trim();
+}
+
+export function createOfflineGeocoder(): Geocoder {
+  return {
+    id: "offline",
+    name: "内蔵の市区町村表",
+    async search(query) {
+      const text = normalizePlaceQuery(query);
+      if (!text) return [];
+      return municipalities
+        .filter((item) => `${item.prefecture}${item.name}`.includes(text))
+        .slice(0, MAX_RESULTS)
+        .map(toResult);
+    },
+    async reverse(point: GeoPoint) {
+      const nearest = [...municipalities].sort(
+        (a, b) => distanceKm(point, a) - distanceKm(point, b),
+      )[0];
+      if (!nearest) return null;
+      const distance = distanceKm(point, nearest);
+      if (distance <= MAX_REVERSE_DISTANCE_KM) {
+        return { ...toResult(nearest), lat: point.lat, lon: point.lon };
+      }
+      if (distance > MAX_PREFECTURE_DISTANCE_KM) return null;
+      return {
+        name: nearest.prefecture,
+        prefecture: nearest.prefecture,
+        lat: point.lat,
+        lon: point.lon,
+        sourceId: "offline",
+      };
+    },
+  };
+}
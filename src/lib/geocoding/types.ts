@@ -0,0 +1,15 @@
+import type { GeoPoint } from "../geo";
+
+export type GeocodeResult = GeoPoint & {
+  name: string;
+  prefecture: string;
+  municipalityCode?: string;
+  sourceId: string;
+};
+
+export type Geocoder = {
+  id: string;
+  name: string;
+  search(query: string): Promise<GeocodeResult[]>;
+  reverse(point: GeoPoint): Promise<GeocodeResult | null>;
+};
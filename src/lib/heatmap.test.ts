@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { IDW_NEIGHBORS, interpolateScore, type HeatSample } from "./heatmap";
+
+// Points along the equator are ~111 km apart per degree, so relative distances
+// are easy to reason about.
+function sample(lon: number, score: number): HeatSample {
+  return { lat: 0, lon, score };
+}
+
+describe("interpolateScore", () => {
+  it("returns null without samples", () => {
+    expect(interpolateScore([], { lat: 35, lon: 139 })).toBeNull();
+  });
+
+  it("uses a sample's own score within 1 km of it", () => {
+    const samples = [sample(0, 80), sample(1, 20)];
+    expect(interpolateScore(samples, { lat: 0, lon: 0.005 })).toBe(80);
+  });
+
+  it("averages equidistant samples evenly", () => {
+    const samples = [sample(-1, 20), sample(1, 80)];
+    expect(interpolateScore(samples, { lat: 0, lon: 0 })).toBe(50);
+  });
+
+  it("weights closer samples by inverse squared distance", () => {
+    // Distances 1 and 3 give weights 9:1.
+    const samples = [sample(1, 100), sample(-3, 0)];
+    expect(interpolateScore(samples, { lat: 0, lon: 0 })).toBe(90);
+  });
+
+  it(`ignores samples beyond the ${IDW_NEIGHBORS} nearest`, () => {
+    const near = Array.from({ length: IDW_NEIGHBORS }, (_, index) => sample(index + 1, 40));
+    const far = Array.from({ length: 20 }, (_, index) => sample(-10 - index, 100));
+    expect(interpolateScore([...far, ...near], { lat: 0, lon: 0 })).toBe(40);
+  });
+});
@@ -0,0 +1,30 @@
+import { distanceKm, type GeoPoint } from "./geo";
+
+export const IDW_POWER = 2;
+export const IDW_NEIGHBORS = 6;
+
+export type HeatSample = GeoPoint & {
+  score: number;
+};
+
+// Only the nearest samples are weighted, otherwise points far from every city
+// drift toward the national average instead of following their neighbours.
+export function interpolateScore(samples: HeatSample[], point: GeoPoint) {
+  if (samples.length === 0) return null;
+
+  const nearest = samples
+    .map((sample) => ({ sample, distance: distanceKm(sample, point) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, IDW_NEIGHBORS);
+
+  if (nearest[0].distance < 1) return nearest[0].sample.score;
+
+  let weighted = 0;
+  let weights = 0;
+  for (const { sample, distance } of nearest) {
+    const weight = 1 / distance ** IDW_POWER;
+    weighted += sample.score * weight;
+    weights += weight;
+  }
+  return Math.round(weighted / weights);
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { addDays } from "./date";
+import { lookupRiskHistory } from "./history-lookup";
+
+function dateRange(start: string, end: string) {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+function dailyBody(url: URL) {
+  const time = dateRange(url.searchParams.get("start_date")!, url.searchParams.get("end_date")!);
+  return {
+    daily: {
+      time,
+      temperature_2m_max: time.map(() => 18),
+      relative_humidity_2m_mean: time.map(() => 35),
+      wind_speed_10m_max: time.map(() => 5),
+      precipitation_sum: time.map(() => 0),
+    },
+  };
+}
+
+function airBody(url: URL) {
+  const days = dateRange(url.searchParams.get("start_date")!, url.searchParams.get("end_date")!);
+  const time = days.flatMap((date) => [`${date}T00:00`, `${date}T12:00`]);
+  return {
+    hourly: {
+      time,
+      pm10: time.map((_time, index) => (index % 2 === 0 ? 30 : 50)),
+      pm2_5: time.map(() => 15),
+    },
+  };
+}
+
+function stubOpenMeteo({ airFails = false } = {}) {
+  const fetchMock = vi.fn(async (input: string) => {
+    const url = new URL(input);
+    if (url.hostname.startsWith("air-quality")) {
+      return airFails
+        ? new Response("unavailable", { status: 503 })
+        : Response.json(airBody(url));
+    }
+    return Response.json(dailyBody(url));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return (host: string) =>
+    fetchMock.mock.calls
+      .map(([input]) => new URL(input))
+      .filter((url) => url.hostname.startsWith(host));
+}
+
+// Each test uses its own coordinates so the shared response cache never
+// answers a request another test made.
+describe("lookupRiskHistory", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // 2026-03-20 12:00 in Japan.
+    vi.setSystemTime(new Date("2026-03-20T03:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("reads older days from the archive and the last few from the forecast", async () => {
+    const requests = stubOpenMeteo();
+    const days = await lookupRiskHistory({
+      lat: 35.1,
+      lon: 139.1,
+      startDate: "2026-03-10",
+      endDate: "2026-03-18",
+    });
+
+    const [archive] = requests("archive-api");
+    expect(archive.searchParams.get("start_date")).toBe("2026-03-10");
+    expect(archive.searchParams.get("end_date")).toBe("2026-03-14");
+    const [forecast] = requests("api.open-meteo");
+    expect(forecast.searchParams.get("start_date")).toBe("2026-03-15");
+    expect(forecast.searchParams.get("end_date")).toBe("2026-03-18");
+    expect(days.map((day) => day.date)).toEqual(dateRange("2026-03-10", "2026-03-18"));
+  });
+
+  it("skips the archive when every day is recent", async () => {
+    const requests = stubOpenMeteo();
+    await lookupRiskHistory({
+      lat: 35.2,
+      lon: 139.2,
+      startDate: "2026-03-16",
+      endDate: "2026-03-19",
+    });
+
+    expect(requests("archive-api")).toHaveLength(0);
+    expect(requests("api.open-meteo")).toHaveLength(1);
+  });
+
+  it("skips the forecast when every day is archived", async () => {
+    const requests = stubOpenMeteo();
+    await lookupRiskHistory({
+      lat: 35.3,
+      lon: 139.3,
+      startDate: "2026-03-01",
+      endDate: "2026-03-05",
+    });
+
+    expect(requests("archive-api")).toHaveLength(1);
+    expect(requests("api.open-meteo")).toHaveLength(0);
+  });
+
+  it("clamps the end date to today in Japan", async () => {
+    const requests = stubOpenMeteo();
+    const days = await lookupRiskHistory({
+      lat: 35.4,
+      lon: 139.4,
+      startDate: "2026-03-18",
+      endDate: "2026-03-25",
+    });
+
+    expect(requests("api.open-meteo")[0].searchParams.get("end_date")).toBe("2026-03-20");
+    expect(requests("air-quality")[0].searchParams.get("end_date")).toBe("2026-03-20");
+    expect(days.map((day) => day.date)).toEqual(["2026-03-18", "2026-03-19", "2026-03-20"]);
+  });
+
+  it("returns nothing without fetching when the range starts after today", async () => {
+    const requests = stubOpenMeteo();
+    const days = await lookupRiskHistory({
+      lat: 35.5,
+      lon: 139.5,
+      startDate: "2026-03-21",
+      endDate: "2026-03-25",
+    });
+
+    expect(days).toEqual([]);
+    expect(requests("")).toHaveLength(0);
+  });
+
+  it("uses the daily mean of the hourly air quality", async () => {
+    stubOpenMeteo();
+    const [day] = await lookupRiskHistory({
+      lat: 35.6,
+      lon: 139.6,
+      startDate: "2026-03-19",
+      endDate: "2026-03-19",
+    });
+
+    expect(day.weather).toMatchObject({ pm10: 40, pm25: 15 });
+  });
+
+  it("falls back to typical air quality when that request fails", async () => {
+    stubOpenMeteo({ airFails: true });
+    const days = await lookupRiskHistory({
+      lat: 35.7,
+      lon: 139.7,
+      startDate: "2026-03-18",
+      endDate: "2026-03-19",
+    });
+
+    expect(days).toHaveLength(2);
+    expect(days[0].weather).toMatchObject({ temperature: 18, pm10: 20, pm25: 10 });
+  });
+});
@@ -0,0 +1,99 @@
+import { addDays, jstMonth, toJstDateString } from "./date";
+import type { GeoPoint } from "./geo";
+import type { HistoricalRiskDay } from "./history";
+import {
+  ARCHIVE_DELAY_DAYS,
+  dailyAirMeans,
+  fetchAirQuality,
+  fetchArchive,
+  fetchForecast,
+  parseNumber,
+  type AirQualityResponse,
+  type ForecastResponse,
+} from "./open-meteo";
+import {
+  estimatePollenTypeStatus,
+  estimateRisk,
+  type WeatherSnapshot,
+} from "./scoring";
+
+const historyDailyFields = [
+  "temperature_2m_max",
+  "relative_humidity_2m_mean",
+  "wind_speed_10m_max",
+  "precipitation_sum",
+];
+
+export type HistoryQuery = GeoPoint & {
+  startDate: string;
+  endDate: string;
+};
+
+function toHistoricalDays(
+  data: ForecastResponse,
+  airData: AirQualityResponse,
+): HistoricalRiskDay[] {
+  const daily = data.daily;
+
+  return (daily?.time ?? []).flatMap((date, index) => {
+    const temperature = daily?.temperature_2m_max?.[index];
+    if (typeof temperature !== "number") return [];
+
+    const air = dailyAirMeans(airData, date);
+    const weather: WeatherSnapshot = {
+      temperature,
+      humidity: parseNumber(daily?.relative_humidity_2m_mean?.[index], 50),
+      wind: parseNumber(daily?.wind_speed_10m_max?.[index], 2),
+      precipitation: parseNumber(daily?.precipitation_sum?.[index], 0),
+      pm10: parseNumber(air.pm10, 20),
+      pm25: parseNumber(air.pm25, 10),
+    };
+    const day = new Date(date);
+    const risk = estimateRisk({ date: day, ...weather });
+    const pollenTypes = estimatePollenTypeStatus(jstMonth(day), weather, risk.score).map(
+      ({ id, score, level, source }) => ({ id, score, level, source }),
+    );
+
+    return [{ date, risk, weather, pollenTypes }];
+  });
+}
+
+export async function lookupRiskHistory(query: HistoryQuery): Promise<HistoricalRiskDay[]> {
+  const today = toJstDateString(new Date());
+  const endDate = query.endDate > today ? today : query.endDate;
+  const cutoff = addDays(today, -ARCHIVE_DELAY_DAYS);
+  if (query.startDate > endDate) return [];
+
+  const archiveEnd = endDate < cutoff ? endDate : addDays(cutoff, -1);
+  const recentStart = query.startDate > cutoff ? query.startDate : cutoff;
+
+  const [archiveData, recentData, airData] = await Promise.all([
+    query.startDate <= archiveEnd
+      ? fetchArchive({
+          lat: query.lat,
+          lon: query.lon,
+          daily: historyDailyFields,
+          startDate: query.startDate,
+          endDate: archiveEnd,
+        })
+      : Promise.resolve<ForecastResponse>({}),
+    recentStart <= endDate
+      ? fetchForecast({
+          lat: query.lat,
+          lon: query.lon,
+          daily: historyDailyFields,
+          startDate: recentStart,
+          endDate,
+        })
+      : Promise.resolve<ForecastResponse>({}),
+    fetchAirQuality({
+      lat: query.lat,
+      lon: query.lon,
+      hourly: ["pm10", "pm2_5"],
+      startDate: query.startDate,
+      endDate,
+    }).catch((): AirQualityResponse => ({})),
+  ]);
+
+  return [...toHistoricalDays(archiveData, airData), ...toHistoricalDays(recentData, airData)];
+}
@@ -0,0 +1,7 @@
+import type { DailyRiskContext } from "./scoring";
+
+export const MAX_HISTORY_DAYS = 92;
+
+export type HistoricalRiskDay = DailyRiskContext & {
+  date: string;
+};
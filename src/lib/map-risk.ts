@@ -0,0 +1,269 @@
+import { addDays, jstMonth, toJstDateString, toJstTimeString } from "./date";
+import {
+  fetchAirQualityBatch,
+  fetchForecastBatch,
+  parseNumber,
+  type AirQualityResponse,
+  type ForecastResponse,
+} from "./open-meteo";
+import {
+  adjustMapRiskScore,
+  estimateHourlyRisk,
+  estimateRisk,
+  riskLevel,
+  type RiskLevel,
+} from "./scoring";
+
+export const MAP_TIMELINE_PAST_DAYS = 7;
+export const MAP_TIMELINE_FUTURE_DAYS = 3;
+export const MAP_TIMELINE_STEP_HOURS = 3;
+
+export type MapCity = {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  region: string;
+  prefectureCode: string;
+  capital: boolean;
+  pollenSuitability: number;
+};
+
+export type CityRiskPoint = MapCity & {
+  score: number;
+  level: RiskLevel;
+  temperature: number;
+  humidity: number;
+  wind: number;
+  precipitation: number;
+  pm10: number;
+  pm25: number;
+};
+
+export type MapRiskLookup = {
+  cities: CityRiskPoint[];
+  missing: string[];
+  updatedAt: string;
+};
+
+export type MapTimeline = {
+  times: string[];
+  scores: Record<string, number[]>;
+  nowIndex: number;
+  updatedAt: string;
+};
+
+type CityRow = [string, string, string, string, number, number, number];
+
+// id, name, prefecture code, region, lat, lon, pollen suitability
+const capitalRows: CityRow[] = [
+  ["sapporo", "札幌", "01", "北海道", 43.0618, 141.3545, 0.64],
+  ["aomori", "青森", "02", "東北", 40.8246, 140.7406, 0.82],
+  ["morioka", "盛岡", "03", "東北", 39.702, 141.1545, 0.88],
+  ["sendai", "仙台", "04", "東北", 38.2682, 140.8694, 0.95],
+  ["akita", "秋田", "05", "東北", 39.72, 140.1025, 0.86],
+  ["yamagata", "山形", "06", "東北", 38.2554, 140.3396, 0.9],
+  ["fukushima", "福島", "07", "東北", 37.7608, 140.4748, 0.95],
+  ["mito", "水戸", "08", "関東", 36.3659, 140.4711, 0.98],
+  ["utsunomiya", "宇都宮", "09", "関東", 36.5551, 139.8828, 1],
+  ["maebashi", "前橋", "10", "関東", 36.3895, 139.0634, 1],
+  ["saitama", "さいたま", "11", "関東", 35.8617, 139.6455, 1],
+  ["chiba", "千葉", "12", "関東", 35.6074, 140.1065, 0.96],
+  ["tokyo", "東京", "13", "関東", 35.6764, 139.65, 1],
+  ["yokohama", "横浜", "14", "関東", 35.4437, 139.638, 0.98],
+  ["niigata", "新潟", "15", "甲信越", 37.9161, 139.0364, 0.9],
+  ["toyama", "富山", "16", "北陸", 36.6959, 137.2137, 0.86],
+  ["kanazawa", "金沢", "17", "北陸", 36.5613, 136.6562, 0.86],
+  ["fukui", "福井", "18", "北陸", 36.0652, 136.2216, 0.88],
+  ["kofu", "甲府", "19", "甲信越", 35.6622, 138.5684, 0.97],
+  ["nagano", "長野", "20", "甲信越", 36.6485, 138.1942, 0.9],
+  ["gifu", "岐阜", "21", "中部", 35.4233, 136.7607, 0.93],
+  ["shizuoka", "静岡", "22", "中部", 34.9756, 138.3828, 0.97],
+  ["nagoya", "名古屋", "23", "中部", 35.1815, 136.9066, 0.93],
+  ["tsu", "津", "24", "関西", 34.7186, 136.5056, 0.9],
+  ["otsu", "大津", "25", "関西", 35.0045, 135.8686, 0.9],
+  ["kyoto", "京都", "26", "関西", 35.0116, 135.7681, 0.9],
+  ["osaka", "大阪", "27", "関西", 34.6937, 135.5023, 0.88],
+  ["kobe", "神戸", "28", "関西", 34.6901, 135.1955, 0.87],
+  ["nara", "奈良", "29", "関西", 34.6851, 135.805, 0.9],
+  ["wakayama", "和歌山", "30", "関西", 34.2305, 135.1708, 0.86],
+  ["tottori", "鳥取", "31", "中国", 35.5011, 134.2351, 0.82],
+  ["matsue", "松江", "32", "中国", 35.4681, 133.0484, 0.8],
+  ["okayama", "岡山", "33", "中国", 34.6551, 133.9195, 0.84],
+  ["hiroshima", "広島", "34", "中国", 34.3853, 132.4553, 0.84],
+  ["yamaguchi", "山口", "35", "中国", 34.1781, 131.4736, 0.82],
+  ["tokushima", "徳島", "36", "四国", 34.0703, 134.5548, 0.84],
+  ["takamatsu", "高松", "37", "四国", 34.3401, 134.0434, 0.82],
+  ["matsuyama", "松山", "38", "四国", 33.8392, 132.7657, 0.82],
+  ["kochi", "高知", "39", "四国", 33.5597, 133.5311, 0.82],
+  ["fukuoka", "福岡", "40", "九州", 33.5902, 130.4017, 0.78],
+  ["saga", "佐賀", "41", "九州", 33.2494, 130.2988, 0.78],
+  ["nagasaki", "長崎", "42", "九州", 32.7503, 129.8777, 0.74],
+  ["kumamoto", "熊本", "43", "九州", 32.8031, 130.7079, 0.8],
+  ["oita", "大分", "44", "九州", 33.2382, 131.6126, 0.8],
+  ["miyazaki", "宮崎", "45", "南九州", 31.9111, 131.4239, 0.72],
+  ["kagoshima", "鹿児島", "46", "南九州", 31.5966, 130.5571, 0.66],
+  ["naha", "那覇", "47", "沖縄", 26.2125, 127.6811, 0.22],
+];
+
+const extraCityRows: CityRow[] = [
+  ["asahikawa", "旭川", "01", "北海道", 43.7706, 142.365, 0.55],
+  ["hakodate", "函館", "01", "北海道", 41.7687, 140.7288, 0.7],
+  ["hamamatsu", "浜松", "22", "中部", 34.7108, 137.7261, 0.93],
+  ["kitakyushu", "北九州", "40", "九州", 33.8834, 130.8752, 0.78],
+];
+
+function toMapCity(row: CityRow, capital: boolean): MapCity {
+  const [id, name, prefectureCode, region, lat, lon, pollenSuitability] = row;
+  return { id, name, lat, lon, region, prefectureCode, capital, pollenSuitability };
+}
+
+export const mapCities: MapCity[] = [
+  ...capitalRows.map((row) => toMapCity(row, true)),
+  ...extraCityRows.map((row) => toMapCity(row, false)),
+];
+
+function scoreCity(
+  city: MapCity,
+  data: ForecastResponse,
+  air: AirQualityResponse | undefined,
+  now: Date,
+): CityRiskPoint {
+  const temperature = parseNumber(data.current?.temperature_2m, 12);
+  const humidity = parseNumber(data.current?.relative_humidity_2m, 50);
+  const wind = parseNumber(data.current?.wind_speed_10m, 2);
+  const precipitation = parseNumber(data.current?.precipitation, 0);
+  const pm10 = parseNumber(air?.current?.pm10, 24);
+  const pm25 = parseNumber(air?.current?.pm2_5, 13);
+  const risk = estimateRisk({
+    date: now,
+    temperature,
+    humidity,
+    wind,
+    precipitation,
+    pm10,
+    pm25,
+  });
+  const adjustedScore = adjustMapRiskScore(
+    risk.score,
+    city.pollenSuitability,
+    jstMonth(now),
+  );
+
+  return {
+    ...city,
+    score: adjustedScore,
+    level: riskLevel(adjustedScore),
+    temperature,
+    humidity,
+    wind,
+    precipitation,
+    pm10,
+    pm25,
+  };
+}
+
+export async function lookupMapRisk(): Promise<MapRiskLookup> {
+  const now = new Date();
+  const [responses, airResponses] = await Promise.all([
+    fetchForecastBatch({
+      points: mapCities,
+      current: ["temperature_2m", "relative_humidity_2m", "wind_speed_10m", "precipitation"],
+    }),
+    fetchAirQualityBatch({
+      points: mapCities,
+      current: ["pm10", "pm2_5"],
+    }).catch((): AirQualityResponse[] => []),
+  ]);
+
+  const scored = mapCities.map((city, index) => {
+    const data = responses[index];
+    return data?.current ? scoreCity(city, data, airResponses[index], now) : null;
+  });
+
+  const cities = scored
+    .filter((city): city is CityRiskPoint => city !== null)
+    .sort((a, b) => b.score - a.score);
+
+  if (cities.length === 0) {
+    throw new Error("map fetch failed");
+  }
+
+  const missing = mapCities
+    .filter((city, index) => scored[index] === null)
+    .map((city) => city.id);
+
+  return { cities, missing, updatedAt: toJstTimeString(now) };
+}
+
+function scoreCityTimeline(
+  city: MapCity,
+  data: ForecastResponse,
+  air: AirQualityResponse | undefined,
+  times: string[],
+) {
+  const hourly = data.hourly;
+  const hourIndex = new Map((hourly?.time ?? []).map((time, index) => [time, index]));
+  const airIndex = new Map((air?.hourly?.time ?? []).map((time, index) => [time, index]));
+
+  return times.map((time) => {
+    const index = hourIndex.get(time) ?? -1;
+    const airAt = airIndex.get(time) ?? -1;
+    const { score } = estimateHourlyRisk(time, {
+      temperature: parseNumber(hourly?.temperature_2m?.[index], 12),
+      humidity: parseNumber(hourly?.relative_humidity_2m?.[index], 50),
+      wind: parseNumber(hourly?.wind_speed_10m?.[index], 2),
+      precipitation: parseNumber(hourly?.precipitation?.[index], 0),
+      pm10: parseNumber(air?.hourly?.pm10?.[airAt], 24),
+      pm25: parseNumber(air?.hourly?.pm2_5?.[airAt], 13),
+    });
+    return adjustMapRiskScore(score, city.pollenSuitability, Number(time.slice(5, 7)));
+  });
+}
+
+// The forecast endpoint also serves the last few weeks, so a single batched
+// request covers both the replayed days and the forecast without the archive API.
+export async function lookupMapTimeline(): Promise<MapTimeline> {
+  const now = new Date();
+  const today = toJstDateString(now);
+  const startDate = addDays(today, -MAP_TIMELINE_PAST_DAYS);
+  const endDate = addDays(today, MAP_TIMELINE_FUTURE_DAYS);
+
+  const [responses, airResponses] = await Promise.all([
+    fetchForecastBatch({
+      points: mapCities,
+      hourly: ["temperature_2m", "relative_humidity_2m", "wind_speed_10m", "precipitation"],
+      startDate,
+      endDate,
+    }),
+    fetchAirQualityBatch({
+      points: mapCities,
+      hourly: ["pm10", "pm2_5"],
+      startDate,
+      endDate,
+    }).catch((): AirQualityResponse[] => []),
+  ]);
+
+  const times = (responses.find((data) => data?.hourly?.time)?.hourly?.time ?? []).filter(
+    (time) => Number(time.slice(11, 13)) % MAP_TIMELINE_STEP_HOURS === 0,
+  );
+  if (times.length === 0) {
+    throw new Error("map timeline fetch failed");
+  }
+
+  const scores: Record<string, number[]> = {};
+  mapCities.forEach((city, index) => {
+    const data = responses[index];
+    if (data?.hourly?.time) {
+      scores[city.id] = scoreCityTimeline(city, data, airResponses[index], times);
+    }
+  });
+
+  const currentHour = `${today}T${toJstTimeString(now).slice(0, 2)}:00`;
+  const nowIndex = Math.max(
+    times.findLastIndex((time) => time <= currentHour),
+    0,
+  );
+
+  return { times, scores, nowIndex, updatedAt: toJstTimeString(now) };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { adherenceStats, medicationComparison, type Medication } from "./medication";
+import { dailySeverities, type SymptomEntry } from "./symptom-log";
+
+const medication: Medication = {
+  id: "med-1",
+  name: "アレグラ",
+  kind: "antihistamine",
+  dose: "1錠",
+  schedule: ["morning", "evening"],
+  // 08:30 JST on 2026-03-10, still the 9th in UTC.
+  createdAt: "2026-03-09T23:30:00.000Z",
+};
+
+function entry(date: string, taken: number, severity = 3): SymptomEntry {
+  return {
+    id: `${date}:evening`,
+    date,
+    timeOfDay: "evening",
+    severity,
+    symptoms: null,
+    tookMedicine: false,
+    medications: Array.from({ length: taken }, () => ({
+      medicationId: "med-1",
+      takenAt: "08:00",
+    })),
+    memo: "",
+    updatedAt: `${date}T12:00:00.000Z`,
+  };
+}
+
+describe("adherenceStats", () => {
+  it("starts counting on the JST day the medication was added", () => {
+    const entries = [entry("2026-03-10", 2), entry("2026-03-11", 1)];
+    const [stat] = adherenceStats([medication], entries, "2026-03-11");
+    expect(stat).toMatchObject({ expected: 4, taken: 3, rate: 75 });
+  });
+
+  it("caps intakes per day at the schedule and limits the window", () => {
+    const entries = [entry("2026-03-20", 5)];
+    const [stat] = adherenceStats([medication], entries, "2026-03-20", 3);
+    expect(stat).toMatchObject({ expected: 6, taken: 2, rate: 33 });
+  });
+
+  it("skips medications without a schedule", () => {
+    expect(adherenceStats([{ ...medication, schedule: [] }], [], "2026-03-11")).toEqual([]);
+  });
+});
+
+describe("medicationComparison", () => {
+  it("splits days by whether any medicine was taken", () => {
+    const days = dailySeverities([
+      entry("2026-03-10", 1, 2),
+      entry("2026-03-11", 0, 6),
+      { ...entry("2026-03-12", 0, 4), tookMedicine: true },
+    ]);
+    expect(medicationComparison(days)).toEqual({
+      medicatedAverage: 3,
+      unmedicatedAverage: 6,
+      medicatedDays: 2,
+      unmedicatedDays: 1,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { addDays, toJstDateString } from "./date";
+import {
+  averageSeverity,
+  type DailySeverity,
+  type SymptomEntry,
+  type TimeOfDay,
+} from "./symptom-log";
+
+export const MEDICATION_STORAGE_KEY = "kafun-medication-v1";
+export const ADHERENCE_WINDOW_DAYS = 14;
+
+export type MedicationKind = "antihistamine" | "nasalSpray" | "eyeDrops" | "other";
+
+export type Medication = {
+  id: string;
+  name: string;
+  kind: MedicationKind;
+  dose: string;
+  schedule: TimeOfDay[];
+  createdAt: string;
+};
+
+export type MedicationIntake = {
+  medicationId: string;
+  takenAt: string;
+};
+
+export type AdherenceStat = {
+  medication: Medication;
+  expected: number;
+  taken: number;
+  rate: number | null;
+};
+
+export type MedicationComparison = {
+  medicatedAverage: number | null;
+  unmedicatedAverage: number | null;
+  medicatedDays: number;
+  unmedicatedDays: number;
+};
+
+export const medicationKindLabels: Record<MedicationKind, string> = {
+  antihistamine: "抗ヒスタミン薬",
+  nasalSpray: "点鼻薬",
+  eyeDrops: "点眼薬",
+  other: "その他",
+};
+
+export function isMedicationKind(value: unknown): value is MedicationKind {
+  return typeof value === "string" && Object.hasOwn(medicationKindLabels, value);
+}
+
+export function isTimeOfDay(value: unknown): value is TimeOfDay {
+  return value === "morning" || value === "evening";
+}
+
+// Stored medications come from older builds and imports; anything the
+// adherence view dereferences is filled in so one bad record cannot break it.
+export function sanitizeMedication(raw: unknown): Medication | null {
+  const medication = raw as Partial<Medication> | null;
+  if (typeof medication?.id !== "string" || typeof medication.name !== "string") return null;
+  const createdAt =
+    typeof medication.createdAt === "string" && !Number.isNaN(Date.parse(medication.createdAt))
+      ? medication.createdAt
+      : new Date(0).toISOString();
+
+  return {
+    id: medication.id,
+    name: medication.name,
+    kind: isMedicationKind(medication.kind) ? medication.kind : "other",
+    dose: typeof medication.dose === "string" ? medication.dose : "",
+    schedule: Array.isArray(medication.schedule) ? medication.schedule.filter(isTimeOfDay) : [],
+    createdAt,
+  };
+}
+
+export function loadMedications(storage: Storage): Medication[] {
+  const raw = storage.getItem(MEDICATION_STORAGE_KEY);
+  if (!raw) return [];
+  return (JSON.parse(raw) as unknown[])
+    .map(sanitizeMedication)
+    .filter((medication): medication is Medication => medication !== null);
+}
+
+export function saveMedications(storage: Storage, medications: Medication[]) {
+  storage.setItem(MEDICATION_STORAGE_KEY, JSON.stringify(medications));
+}
+
+export function createMedicationId() {
+  return `med-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function tookAnyMedicine(entry: SymptomEntry) {
+  return entry.tookMedicine || (entry.medications?.length ?? 0) > 0;
+}
+
+export function adherenceStats(
+  medications: Medication[],
+  entries: SymptomEntry[],
+  today: string,
+  windowDays = ADHERENCE_WINDOW_DAYS,
+): AdherenceStat[] {
+  const windowStart = addDays(today, -(windowDays - 1));
+
+  return medications
+    .filter((medication) => medication.schedule.length > 0)
+    .map((medication) => {
+      // createdAt is a UTC timestamp while log dates are JST days.
+      const createdDate = toJstDateString(new Date(medication.createdAt));
+      const start = createdDate > windowStart ? createdDate : windowStart;
+      let expected = 0;
+      let taken = 0;
+
+      for (let date = start; date <= today; date = addDays(date, 1)) {
+        expected += medication.schedule.length;
+        const count = entries
+          .filter((entry) => entry.date === date)
+          .flatMap((entry) => entry.medications ?? [])
+          .filter((intake) => intake.medicationId === medication.id).length;
+        taken += Math.min(count, medication.schedule.length);
+      }
+
+      return {
+        medication,
+        expected,
+        taken,
+        rate: expected > 0 ? Math.round((taken / expected) * 100) : null,
+      };
+    });
+}
+
+export function medicationComparison(days: DailySeverity[]): MedicationComparison {
+  const medicated = days.filter((day) => day.entries.some(tookAnyMedicine));
+  const unmedicated = days.filter((day) => !day.entries.some(tookAnyMedicine));
+
+  return {
+    medicatedAverage: averageSeverity(medicated),
+    unmedicatedAverage: averageSeverity(unmedicated),
+    medicatedDays: medicated.length,
+    unmedicatedDays: unmedicated.length,
+  };
+}
@@ -0,0 +1,71 @@
+import { readFile } from "node:fs/promises";
+import { distanceKm } from "../geo";
+import { pollenCatalog } from "../scoring";
+import type { ObservedPollenType, PollenObservation, PollenObservationSource } from "./types";
+
+const REQUIRED_COLUMNS = ["observed_at", "lat", "lon", "pollen_type", "count"] as const;
+
+function toPollenType(value: string): ObservedPollenType | null {
+  const normalized = value.trim();
+  if (normalized === "total" || normalized === "合計") return "total";
+  const match = pollenCatalog.find(
+    (type) => type.id === normalized || type.name === normalized,
+  );
+  return match ? match.id : null;
+}
+
+export function parsePollenCsv(raw: string, sourceId: string) {
+  const [headerLine, ...lines] = raw.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (!headerLine) return [];
+
+  const header = headerLine.split(",").map((column) => column.trim());
+  const indexes = REQUIRED_COLUMNS.map((column) => header.indexOf(column));
+  if (indexes.some((index) => index < 0)) {
+    throw new Error(`pollen csv must have columns: ${REQUIRED_COLUMNS.join(", ")}`);
+  }
+  const [timeIndex, latIndex, lonIndex, typeIndex, countIndex] = indexes;
+
+  return lines.flatMap((line) => {
+    const cells = line.split(",");
+    const pollenType = toPollenType(cells[typeIndex] ?? "");
+    const lat = Number(cells[latIndex]);
+    const lon = Number(cells[lonIndex]);
+    const count = Number(cells[countIndex]);
+    if (!pollenType || ![lat, lon, count].every(Number.isFinite)) return [];
+
+    return [
+      {
+        lat,
+        lon,
+        observation: {
+          pollenType,
+          grainsPerM3: count,
+          observedAt: cells[timeIndex].trim(),
+          sourceId,
+        } satisfies PollenObservation,
+      },
+    ];
+  });
+}
+
+export function createCsvPollenSource(filePath: string, radiusKm = 25): PollenObservationSource {
+  return {
+    id: "csv",
+    name: "CSV 観測データ",
+    async fetchObservations(query) {
+      const rows = parsePollenCsv(await readFile(filePath, "utf8"), "csv");
+      const latest = new Map<ObservedPollenType, PollenObservation>();
+
+      for (const row of rows) {
+        if (!row.observation.observedAt.startsWith(query.date)) continue;
+        if (distanceKm(query, row) > radiusKm) continue;
+        const current = latest.get(row.observation.pollenType);
+        if (!current || row.observation.observedAt > current.observedAt) {
+          latest.set(row.observation.pollenType, row.observation);
+        }
+      }
+
+      return [...latest.values()];
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { createCsvPollenSource } from "./csv-source";
+import { createOpenMeteoPollenSource } from "./open-meteo-source";
+import type {
+  ObservedPollenType,
+  PollenObservation,
+  PollenObservationQuery,
+  PollenObservationSource,
+} from "./types";
+
+export { createCsvPollenSource, parsePollenCsv } from "./csv-source";
+export { createOpenMeteoPollenSource } from "./open-meteo-source";
+export type {
+  ObservedPollenType,
+  PollenObservation,
+  PollenObservationQuery,
+  PollenObservationSource,
+} from "./types";
+
+export function createDefaultObservationSources(): PollenObservationSource[] {
+  const sources: PollenObservationSource[] = [];
+  if (process.env.POLLEN_CSV_PATH) {
+    sources.push(createCsvPollenSource(process.env.POLLEN_CSV_PATH));
+  }
+  sources.push(createOpenMeteoPollenSource());
+  return sources;
+}
+
+export async function collectObservations(
+  sources: PollenObservationSource[],
+  query: PollenObservationQuery,
+): Promise<PollenObservation[]> {
+  const settled = await Promise.allSettled(
+    sources.map((source) => source.fetchObservations(query)),
+  );
+
+  const merged = new Map<ObservedPollenType, PollenObservation>();
+  for (const result of settled) {
+    if (result.status !== "fulfilled") continue;
+    for (const observation of result.value) {
+      if (!merged.has(observation.pollenType)) {
+        merged.set(observation.pollenType, observation);
+      }
+    }
+  }
+
+  return [...merged.values()];
+}
@@ -0,0 +1,38 @@
+import { fetchAirQuality } from "../open-meteo";
+import type { PollenTypeId } from "../scoring";
+import type { PollenObservation, PollenObservationSource } from "./types";
+
+const variableMap: { variable: "birch_pollen" | "grass_pollen" | "ragweed_pollen"; type: PollenTypeId }[] = [
+  { variable: "birch_pollen", type: "birch" },
+  { variable: "grass_pollen", type: "grass" },
+  { variable: "ragweed_pollen", type: "ragweed" },
+];
+
+export function createOpenMeteoPollenSource(): PollenObservationSource {
+  return {
+    id: "open-meteo",
+    name: "Open-Meteo Air Quality",
+    async fetchObservations(query) {
+      const data = await fetchAirQuality({
+        lat: query.lat,
+        lon: query.lon,
+        current: variableMap.map((item) => item.variable),
+      });
+      const observedAt = data.current?.time ?? "";
+      if (!observedAt.startsWith(query.date)) return [];
+
+      return variableMap.flatMap((item): PollenObservation[] => {
+        const value = data.current?.[item.variable];
+        if (typeof value !== "number" || !Number.isFinite(value)) return [];
+        return [
+          {
+            pollenType: item.type,
+            grainsPerM3: value,
+            observedAt,
+            sourceId: "open-meteo",
+          },
+        ];
+      });
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import type { GeoPoint } from "../geo";
+import type { PollenTypeId } from "../scoring";
+
+export type ObservedPollenType = PollenTypeId | "total";
+
+export type PollenObservation = {
+  pollenType: ObservedPollenType;
+  grainsPerM3: number;
+  observedAt: string;
+  sourceId: string;
+};
+
+export type PollenObservationQuery = GeoPoint & {
+  date: string;
+};
+
+export type PollenObservationSource = {
+  id: string;
+  name: string;
+  fetchObservations(query: PollenObservationQuery): Promise<PollenObservation[]>;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  OFFLINE_LOG_QUEUE_STORAGE_KEY,
+  groupOfflineLogs,
+  loadOfflineLogQueue,
+  saveOfflineLogQueue,
+  type OfflineLogItem,
+} from "./offline-queue";
+import { createMemoryStorage } from "./testing/memory-storage";
+
+const tokyo = { id: "tokyo", name: "東京", lat: 35.6764, lon: 139.65 };
+const osaka = { id: "osaka", name: "大阪", lat: 34.6937, lon: 135.5023 };
+
+function item(date: string, location = tokyo): OfflineLogItem {
+  return { id: `${date}:morning`, date, location };
+}
+
+describe("loadOfflineLogQueue", () => {
+  it("round-trips saved items", () => {
+    const storage = createMemoryStorage();
+    const items = [item("2026-03-01"), item("2026-03-02", osaka)];
+    saveOfflineLogQueue(storage, items);
+    expect(loadOfflineLogQueue(storage)).toEqual(items);
+  });
+
+  it("drops items without a date or location", () => {
+    const storage = createMemoryStorage({
+      [OFFLINE_LOG_QUEUE_STORAGE_KEY]: JSON.stringify([
+        "2026-03-01:morning",
+        { id: "a", date: "2026-03-01" },
+        { id: "b", date: "March", location: tokyo },
+        item("2026-03-02"),
+      ]),
+    });
+    expect(loadOfflineLogQueue(storage)).toEqual([item("2026-03-02")]);
+  });
+});
+
+describe("groupOfflineLogs", () => {
+  it("requests each location once over the span of its dates", () => {
+    const groups = groupOfflineLogs([
+      item("2026-03-05"),
+      item("2026-03-02", osaka),
+      item("2026-03-01"),
+    ]);
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ location: tokyo, start: "2026-03-01", end: "2026-03-05" });
+    expect(groups[0].items).toHaveLength(2);
+    expect(groups[1]).toMatchObject({ location: osaka, start: "2026-03-02", end: "2026-03-02" });
+  });
+});
@@ -0,0 +1,50 @@
+import { isDateString } from "./date";
+import { isLocationOption, type LocationOption } from "./geo";
+
+export const OFFLINE_LOG_QUEUE_STORAGE_KEY = "kafun-offline-log-queue-v2";
+export const OFFLINE_LOG_RETRY_MS = 5 * 60 * 1000;
+
+// A symptom entry saved while offline. Its weather context is filled in from
+// the history API for the location it was recorded at once the connection is
+// back, even if the dashboard has moved to another location since.
+export type OfflineLogItem = {
+  id: string;
+  date: string;
+  location: LocationOption;
+};
+
+function isOfflineLogItem(value: unknown): value is OfflineLogItem {
+  const item = value as Partial<OfflineLogItem> | null;
+  return (
+    typeof item?.id === "string" &&
+    typeof item.date === "string" &&
+    isDateString(item.date) &&
+    isLocationOption(item.location)
+  );
+}
+
+export function loadOfflineLogQueue(storage: Storage): OfflineLogItem[] {
+  const raw = storage.getItem(OFFLINE_LOG_QUEUE_STORAGE_KEY);
+  if (!raw) return [];
+  const items = JSON.parse(raw) as unknown;
+  return Array.isArray(items) ? items.filter(isOfflineLogItem) : [];
+}
+
+export function saveOfflineLogQueue(storage: Storage, items: OfflineLogItem[]) {
+  storage.setItem(OFFLINE_LOG_QUEUE_STORAGE_KEY, JSON.stringify(items));
+}
+
+// One history request per location covers every queued date recorded there.
+export function groupOfflineLogs(items: OfflineLogItem[]) {
+  const groups = new Map<string, { location: LocationOption; items: OfflineLogItem[] }>();
+  for (const item of items) {
+    const key = `${item.location.lat},${item.location.lon}`;
+    const group = groups.get(key) ?? { location: item.location, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  }
+  return [...groups.values()].map((group) => {
+    const dates = group.items.map((item) => item.date).sort();
+    return { ...group, start: dates[0], end: dates[dates.length - 1] };
+  });
+}
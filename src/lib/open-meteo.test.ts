@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { GeoPoint } from "./geo";
+import { fetchForecastBatch, type ForecastResponse } from "./open-meteo";
+
+function stubForecast(respond: (points: GeoPoint[]) => unknown) {
+  const fetchMock = vi.fn(async (input: string) => {
+    const url = new URL(input);
+    const lats = url.searchParams.get("latitude")!.split(",").map(Number);
+    const lons = url.searchParams.get("longitude")!.split(",").map(Number);
+    return Response.json(respond(lats.map((lat, index) => ({ lat, lon: lons[index] }))));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+// Each response echoes its latitude so the order can be checked.
+const echo = (point: GeoPoint): ForecastResponse => ({
+  daily: { temperature_2m_max: [point.lat] },
+});
+
+// Each test uses its own date so the shared response cache never answers a
+// request another test made.
+describe("fetchForecastBatch", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("wraps the bare object returned for a single location", async () => {
+    const fetchMock = stubForecast((points) => echo(points[0]));
+    const responses = await fetchForecastBatch({
+      points: [{ lat: 35.68, lon: 139.77 }],
+      daily: ["temperature_2m_max"],
+      startDate: "2026-03-01",
+      endDate: "2026-03-01",
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(responses).toEqual([{ daily: { temperature_2m_max: [35.68] } }]);
+  });
+
+  it("splits more than 50 locations into requests and keeps their order", async () => {
+    const fetchMock = stubForecast((points) => points.map(echo));
+    const points = Array.from({ length: 51 }, (_, index) => ({ lat: 30 + index / 10, lon: 135 }));
+    const responses = await fetchForecastBatch({
+      points,
+      daily: ["temperature_2m_max"],
+      startDate: "2026-03-02",
+      endDate: "2026-03-02",
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const sizes = fetchMock.mock.calls.map(
+      ([input]) => new URL(input).searchParams.get("latitude")!.split(",").length,
+    );
+    expect(sizes).toEqual([50, 1]);
+    expect(responses.map((response) => response.daily?.temperature_2m_max?.[0])).toEqual(
+      points.map((point) => point.lat),
+    );
+  });
+
+  it("rejects a response that does not match the number of locations", async () => {
+    stubForecast((points) => points.slice(1).map(echo));
+    await expect(
+      fetchForecastBatch({
+        points: [
+          { lat: 35.68, lon: 139.77 },
+          { lat: 34.69, lon: 135.5 },
+        ],
+        daily: ["temperature_2m_max"],
+        startDate: "2026-03-03",
+        endDate: "2026-03-03",
+      }),
+    ).rejects.toThrow("open-meteo batch response size mismatch");
+  });
+});
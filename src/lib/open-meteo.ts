@@ -0,0 +1,229 @@
+import { createDefaultCacheStore, createSwrCache } from "./cache";
+import type { GeoPoint } from "./geo";
+
+const FORECAST_ENDPOINT = "https://api.open-meteo.com/v1/forecast";
+const AIR_QUALITY_ENDPOINT = "https://air-quality-api.open-meteo.com/v1/air-quality";
+const ARCHIVE_ENDPOINT = "https://archive-api.open-meteo.com/v1/archive";
+
+const BATCH_SIZE = 50;
+
+export const MAX_FORECAST_DAYS = 16;
+export const MAX_AIR_QUALITY_DAYS = 7;
+export const ARCHIVE_DELAY_DAYS = 5;
+
+const cache = createSwrCache(createDefaultCacheStore(), {
+  ttlMs: 10 * 60 * 1000,
+  staleMs: 60 * 60 * 1000,
+});
+
+type ForecastFields = {
+  current?: string[];
+  hourly?: string[];
+  daily?: string[];
+  forecastDays?: number;
+  startDate?: string;
+  endDate?: string;
+};
+
+type AirQualityFields = {
+  current?: string[];
+  hourly?: string[];
+  forecastDays?: number;
+  startDate?: string;
+  endDate?: string;
+};
+
+export type ForecastQuery = GeoPoint & ForecastFields;
+
+export type ForecastBatchQuery = ForecastFields & {
+  points: GeoPoint[];
+};
+
+export type ArchiveQuery = GeoPoint & {
+  daily: string[];
+  startDate: string;
+  endDate: string;
+};
+
+export type AirQualityQuery = GeoPoint & AirQualityFields;
+
+export type AirQualityBatchQuery = AirQualityFields & {
+  points: GeoPoint[];
+};
+
+export type ForecastResponse = {
+  current?: {
+    temperature_2m?: number;
+    relative_humidity_2m?: number;
+    wind_speed_10m?: number;
+    precipitation?: number;
+  };
+  hourly?: {
+    time?: string[];
+    temperature_2m?: number[];
+    relative_humidity_2m?: number[];
+    wind_speed_10m?: number[];
+    precipitation?: number[];
+  };
+  daily?: {
+    time?: string[];
+    temperature_2m_max?: number[];
+    relative_humidity_2m_mean?: number[];
+    wind_speed_10m_max?: number[];
+    wind_direction_10m_dominant?: number[];
+    precipitation_sum?: number[];
+    precipitation_probability_max?: number[];
+  };
+};
+
+export type AirQualityResponse = {
+  current?: {
+    time?: string;
+    pm10?: number;
+    pm2_5?: number;
+    alder_pollen?: number | null;
+    birch_pollen?: number | null;
+    grass_pollen?: number | null;
+    mugwort_pollen?: number | null;
+    olive_pollen?: number | null;
+    ragweed_pollen?: number | null;
+  };
+  hourly?: {
+    time?: string[];
+    pm10?: number[];
+    pm2_5?: number[];
+  };
+};
+
+export function parseNumber(value: unknown, fallback = 0) {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : fallback;
+}
+
+function dailyMean(values: number[] | undefined, times: string[], date: string) {
+  const list = times
+    .map((time, index) => (time.startsWith(date) ? values?.[index] : undefined))
+    .filter((value): value is number => Number.isFinite(value));
+  if (list.length === 0) return undefined;
+  return list.reduce((sum, value) => sum + value, 0) / list.length;
+}
+
+export function dailyAirMeans(airData: AirQualityResponse, date: string) {
+  const times = airData.hourly?.time ?? [];
+  return {
+    pm10: dailyMean(airData.hourly?.pm10, times, date),
+    pm25: dailyMean(airData.hourly?.pm2_5, times, date),
+  };
+}
+
+function buildUrl(endpoint: string, params: Record<string, string | number | undefined>) {
+  const search = new URLSearchParams({ timezone: "Asia/Tokyo" });
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  }
+  return `${endpoint}?${search.toString()}`;
+}
+
+function roundCoordinate(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function coordinateParams(points: GeoPoint[]) {
+  return {
+    latitude: points.map((point) => roundCoordinate(point.lat)).join(","),
+    longitude: points.map((point) => roundCoordinate(point.lon)).join(","),
+  };
+}
+
+function forecastParams(fields: ForecastFields) {
+  return {
+    current: fields.current?.join(","),
+    hourly: fields.hourly?.join(","),
+    daily: fields.daily?.join(","),
+    forecast_days: fields.startDate ? undefined : fields.forecastDays,
+    start_date: fields.startDate,
+    end_date: fields.endDate,
+  };
+}
+
+function airQualityParams(fields: AirQualityFields) {
+  return {
+    current: fields.current?.join(","),
+    hourly: fields.hourly?.join(","),
+    forecast_days: fields.startDate ? undefined : fields.forecastDays,
+    start_date: fields.startDate,
+    end_date: fields.endDate,
+  };
+}
+
+function fetchJson<T>(url: string): Promise<T> {
+  return cache.get(url, async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`open-meteo request failed: ${response.status}`);
+    }
+    return (await response.json()) as T;
+  });
+}
+
+async function fetchBatch<T>(
+  endpoint: string,
+  points: GeoPoint[],
+  params: Record<string, string | number | undefined>,
+): Promise<T[]> {
+  const chunks: GeoPoint[][] = [];
+  for (let index = 0; index < points.length; index += BATCH_SIZE) {
+    chunks.push(points.slice(index, index + BATCH_SIZE));
+  }
+
+  const responses = await Promise.all(
+    chunks.map(async (chunk) => {
+      const data = await fetchJson<T | T[]>(
+        buildUrl(endpoint, { ...coordinateParams(chunk), ...params }),
+      );
+      // A single location comes back as a bare object, several as an array.
+      const list = Array.isArray(data) ? data : [data];
+      if (list.length !== chunk.length) {
+        throw new Error("open-meteo batch response size mismatch");
+      }
+      return list;
+    }),
+  );
+
+  return responses.flat();
+}
+
+export function fetchForecast(query: ForecastQuery) {
+  return fetchJson<ForecastResponse>(
+    buildUrl(FORECAST_ENDPOINT, { ...coordinateParams([query]), ...forecastParams(query) }),
+  );
+}
+
+export function fetchForecastBatch(query: ForecastBatchQuery) {
+  return fetchBatch<ForecastResponse>(FORECAST_ENDPOINT, query.points, forecastParams(query));
+}
+
+export function fetchArchive(query: ArchiveQuery) {
+  return fetchJson<ForecastResponse>(
+    buildUrl(ARCHIVE_ENDPOINT, {
+      ...coordinateParams([query]),
+      daily: query.daily.join(","),
+      start_date: query.startDate,
+      end_date: query.endDate,
+    }),
+  );
+}
+
+export function fetchAirQuality(query: AirQualityQuery) {
+  return fetchJson<AirQualityResponse>(
+    buildUrl(AIR_QUALITY_ENDPOINT, { ...coordinateParams([query]), ...airQualityParams(query) }),
+  );
+}
+
+export function fetchAirQualityBatch(query: AirQualityBatchQuery) {
+  return fetchBatch<AirQualityResponse>(
+    AIR_QUALITY_ENDPOINT,
+    query.points,
+    airQualityParams(query),
+  );
+}
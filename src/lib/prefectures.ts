@@ -0,0 +1,43 @@
+import prefectureGeoJson from "../data/japan-prefectures.json";
+import type { GeoPoint } from "./geo";
+
+export type PrefectureShape = {
+  code: string;
+  name: string;
+  polygons: GeoPoint[][];
+};
+
+// Simplified from Natural Earth 1:10m admin-1 boundaries (public domain).
+// Only outer rings are kept and islands under ~0.01 square degrees are dropped.
+export const prefectureShapes: PrefectureShape[] = prefectureGeoJson.features.map(
+  (feature) => ({
+    code: feature.properties.code,
+    name: feature.properties.name,
+    polygons: feature.geometry.coordinates.map(([ring]) =>
+      ring.map(([lon, lat]) => ({ lat, lon })),
+    ),
+  }),
+);
+
+function insideRing(ring: GeoPoint[], point: GeoPoint) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function findPrefecture(point: GeoPoint) {
+  return (
+    prefectureShapes.find((shape) =>
+      shape.polygons.some((ring) => insideRing(ring, point)),
+    ) ?? null
+  );
+}
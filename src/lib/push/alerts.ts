@@ -0,0 +1,61 @@
+import { toJstDateString, toJstTimeString } from "../date";
+import { lookupRisk } from "../risk-lookup";
+import { isLevelAtLeast, type RiskResult } from "../scoring";
+import type { AlertMessage, AlertSubscription, PushSender, SubscriptionStore } from "./types";
+
+type LocationRisk = {
+  name: string;
+  risk: RiskResult;
+};
+
+export function isAlertDue(subscription: AlertSubscription, now: Date) {
+  return (
+    subscription.lastNotifiedDate !== toJstDateString(now) &&
+    toJstTimeString(now) >= subscription.notifyAt
+  );
+}
+
+export function buildAlertMessage(risks: LocationRisk[]): AlertMessage {
+  const sorted = [...risks].sort((a, b) => b.risk.score - a.risk.score);
+  const top = sorted[0];
+  const others = sorted
+    .slice(1)
+    .map((item) => `${item.name} ${item.risk.score}`)
+    .join("・");
+
+  return {
+    title: `今日の花粉リスク: ${top.name}は${top.risk.level}`,
+    body: `スコア ${top.risk.score}${others ? `（${others}）` : ""}。${top.risk.advice}`,
+    url: "/",
+  };
+}
+
+// Each subscriber is evaluated once per JST day at or after their chosen time,
+// whether or not the threshold was reached, so a restart never sends twice.
+export async function runDueAlerts(store: SubscriptionStore, sender: PushSender, now = new Date()) {
+  const today = toJstDateString(now);
+  const due = (await store.list()).filter((subscription) => isAlertDue(subscription, now));
+
+  for (const subscription of due) {
+    try {
+      const risks = await Promise.all(
+        subscription.locations.map(async (location) => ({
+          name: location.name,
+          risk: (await lookupRisk({ lat: location.lat, lon: location.lon, days: 1 })).risk,
+        })),
+      );
+      const reached = risks.filter((item) => isLevelAtLeast(item.risk.level, subscription.threshold));
+
+      if (reached.length > 0) {
+        const result = await sender.send(subscription.subscription, buildAlertMessage(reached));
+        if (result === "gone") {
+          await store.delete(subscription.id);
+          continue;
+        }
+      }
+      await store.put({ ...subscription, lastNotifiedDate: today });
+    } catch {
+      // Weather or push service trouble: leave the day open and retry on the next tick.
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFileSubscriptionStore } from "./file-store";
+import type { AlertSubscription } from "./types";
+
+function subscription(id: string): AlertSubscription {
+  return {
+    id,
+    subscription: { endpoint: `https://fcm.googleapis.com/${id}`, keys: { p256dh: "k", auth: "a" } },
+    threshold: "高い",
+    notifyAt: "07:00",
+    locations: [{ name: "東京", lat: 35.68, lon: 139.77 }],
+    createdAt: "2026-03-01T00:00:00.000Z",
+    lastNotifiedDate: null,
+  };
+}
+
+describe("createFileSubscriptionStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "push-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("keeps every write when puts overlap", async () => {
+    const store = createFileSubscriptionStore(path.join(directory, "subs.json"));
+    await Promise.all(["a", "b", "c"].map((id) => store.put(subscription(id))));
+    expect((await store.list()).map((item) => item.id).sort()).toEqual(["a", "b", "c"]);
+  });
+
+  it("refuses new subscriptions once full but still updates existing ones", async () => {
+    const store = createFileSubscriptionStore(path.join(directory, "subs.json"), 2);
+    expect(await store.put(subscription("a"))).toBe(true);
+    expect(await store.put(subscription("b"))).toBe(true);
+    expect(await store.put(subscription("c"))).toBe(false);
+    expect(await store.put({ ...subscription("a"), lastNotifiedDate: "2026-03-02" })).toBe(true);
+
+    const stored = await store.list();
+    expect(stored.map((item) => item.id)).toEqual(["b", "a"]);
+    expect(stored[1].lastNotifiedDate).toBe("2026-03-02");
+
+    await store.delete("b");
+    expect(await store.put(subscription("c"))).toBe(true);
+  });
+});
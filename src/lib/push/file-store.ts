@@ -0,0 +1,63 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AlertSubscription, SubscriptionStore } from "./types";
+
+export const MAX_SUBSCRIPTIONS = 1000;
+
+type StoredSubscriptions = {
+  version: number;
+  subscriptions: AlertSubscription[];
+};
+
+export function createFileSubscriptionStore(
+  filePath: string,
+  maxSubscriptions = MAX_SUBSCRIPTIONS,
+): SubscriptionStore {
+  // Writes are chained so two requests never read-modify-write the file at once.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<AlertSubscription[]> {
+    try {
+      const stored = JSON.parse(await readFile(filePath, "utf8")) as StoredSubscriptions;
+      return Array.isArray(stored.subscriptions) ? stored.subscriptions : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function write(subscriptions: AlertSubscription[]) {
+    const stored: StoredSubscriptions = { version: 1, subscriptions };
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const temporary = `${filePath}.tmp`;
+    await writeFile(temporary, JSON.stringify(stored), "utf8");
+    await rename(temporary, filePath);
+  }
+
+  // `change` returns null to leave the file untouched.
+  function update(change: (subscriptions: AlertSubscription[]) => AlertSubscription[] | null) {
+    const next = queue.then(async () => {
+      const changed = change(await read());
+      if (!changed) return false;
+      await write(changed);
+      return true;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    async list() {
+      await queue;
+      return read();
+    },
+    put(subscription) {
+      return update((subscriptions) => {
+        const others = subscriptions.filter((item) => item.id !== subscription.id);
+        return others.length < maxSubscriptions ? [...others, subscription] : null;
+      });
+    },
+    async delete(id) {
+      await update((subscriptions) => subscriptions.filter((item) => item.id !== id));
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { runDueAlerts } from "./alerts";
+import { createFileSubscriptionStore } from "./file-store";
+import type { PushSender, SubscriptionStore } from "./types";
+import { createWebPushSender } from "./web-push-sender";
+
+export { buildAlertMessage, isAlertDue, runDueAlerts } from "./alerts";
+export { MAX_SUBSCRIPTIONS, createFileSubscriptionStore } from "./file-store";
+export { createWebPushSender } from "./web-push-sender";
+export type {
+  AlertMessage,
+  AlertSubscription,
+  PushSender,
+  PushSendResult,
+  SubscriptionStore,
+  VapidKeys,
+} from "./types";
+
+export const ALERT_CHECK_INTERVAL_MS = 60 * 1000;
+
+let defaultStore: SubscriptionStore | null = null;
+
+export function createDefaultSubscriptionStore(): SubscriptionStore {
+  return createFileSubscriptionStore(
+    process.env.PUSH_SUBSCRIPTIONS_PATH ??
+      path.join(process.cwd(), ".data", "push-subscriptions.json"),
+  );
+}
+
+// The route and the scheduler share one store so their writes go through the
+// same queue instead of overwriting each other's changes to the file.
+export function defaultSubscriptionStore() {
+  defaultStore ??= createDefaultSubscriptionStore();
+  return defaultStore;
+}
+
+export function createDefaultPushSender(): PushSender | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return createWebPushSender({
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT ?? "mailto:admin@example.com",
+  });
+}
+
+export function subscriptionId(endpoint: string) {
+  return createHash("sha1").update(endpoint).digest("hex");
+}
+
+let schedulerStarted = false;
+
+export function startAlertScheduler(
+  store = defaultSubscriptionStore(),
+  sender = createDefaultPushSender(),
+) {
+  if (schedulerStarted || !sender) return;
+  schedulerStarted = true;
+
+  let running = false;
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    void runDueAlerts(store, sender)
+      .catch(() => undefined)
+      .finally(() => {
+        running = false;
+      });
+  }, ALERT_CHECK_INTERVAL_MS);
+}
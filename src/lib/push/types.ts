@@ -0,0 +1,33 @@
+import type { AlertSubscriptionRequest, PushSubscriptionPayload } from "../alert-settings";
+
+export type AlertSubscription = AlertSubscriptionRequest & {
+  id: string;
+  createdAt: string;
+  lastNotifiedDate: string | null;
+};
+
+export type SubscriptionStore = {
+  list(): Promise<AlertSubscription[]>;
+  // Resolves false when the store is full and the subscription is new.
+  put(subscription: AlertSubscription): Promise<boolean>;
+  delete(id: string): Promise<void>;
+};
+
+export type AlertMessage = {
+  title: string;
+  body: string;
+  url: string;
+};
+
+export type VapidKeys = {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+};
+
+export type PushSendResult = "sent" | "gone";
+
+export type PushSender = {
+  publicKey: string;
+  send(subscription: PushSubscriptionPayload, message: AlertMessage): Promise<PushSendResult>;
+};
@@ -0,0 +1,29 @@
+import webpush, { WebPushError } from "web-push";
+import type { PushSender, VapidKeys } from "./types";
+
+export function createWebPushSender(keys: VapidKeys): PushSender {
+  const options = {
+    vapidDetails: {
+      subject: keys.subject,
+      publicKey: keys.publicKey,
+      privateKey: keys.privateKey,
+    },
+    TTL: 6 * 60 * 60,
+  };
+
+  return {
+    publicKey: keys.publicKey,
+    async send(subscription, message) {
+      try {
+        await webpush.sendNotification(subscription, JSON.stringify(message), options);
+        return "sent";
+      } catch (error) {
+        // The browser dropped the subscription; anything else is worth retrying tomorrow.
+        if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          return "gone";
+        }
+        throw error;
+      }
+    },
+  };
+}
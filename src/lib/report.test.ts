@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import type { ActionItem } from "./action-checklist";
+import { addDays } from "./date";
+import type { Medication } from "./medication";
+import { REPORT_MAX_DAYS, REPORT_WORST_DAYS, buildDoctorReport } from "./report";
+import type { SymptomEntry, TimeOfDay } from "./symptom-log";
+import { logContext } from "./testing/log-context";
+
+const medication: Medication = {
+  id: "med-1",
+  name: "アレグラ",
+  kind: "antihistamine",
+  dose: "1錠",
+  schedule: ["morning"],
+  createdAt: "2026-03-01T00:00:00.000Z",
+};
+
+const actionItems: ActionItem[] = [
+  { key: "mask", label: "マスク", recommendedFrom: null },
+  { key: "glasses", label: "メガネ", recommendedFrom: null },
+];
+
+function entry(
+  date: string,
+  severity: number,
+  { timeOfDay = "evening" as TimeOfDay, medicated = false, tookMedicine = false } = {},
+): SymptomEntry {
+  return {
+    id: `${date}:${timeOfDay}`,
+    date,
+    timeOfDay,
+    severity,
+    symptoms: null,
+    tookMedicine,
+    medications: medicated ? [{ medicationId: medication.id, takenAt: "08:00" }] : [],
+    memo: "",
+    updatedAt: `${date}T12:00:00.000Z`,
+  };
+}
+
+describe("buildDoctorReport", () => {
+  it("returns null without entries", () => {
+    expect(buildDoctorReport([], [medication], {}, actionItems)).toBeNull();
+  });
+
+  it("spans the logged days and fills the gaps between them", () => {
+    const report = buildDoctorReport(
+      [entry("2026-03-01", 2), entry("2026-03-04", 4, { medicated: true })],
+      [medication],
+      {},
+      actionItems,
+    );
+
+    expect(report).toMatchObject({ startDate: "2026-03-01", endDate: "2026-03-04", loggedDays: 2 });
+    expect(report?.days).toEqual([
+      { date: "2026-03-01", severity: 2, medicated: false },
+      { date: "2026-03-02", severity: null, medicated: false },
+      { date: "2026-03-03", severity: null, medicated: false },
+      { date: "2026-03-04", severity: 4, medicated: true },
+    ]);
+  });
+
+  it("keeps only the most recent logged days", () => {
+    const entries = Array.from({ length: REPORT_MAX_DAYS + 10 }, (_, index) =>
+      entry(addDays("2026-01-01", index), index < 10 ? 5 : 1),
+    );
+    const report = buildDoctorReport(entries, [], {}, actionItems);
+
+    expect(report?.loggedDays).toBe(REPORT_MAX_DAYS);
+    expect(report?.startDate).toBe("2026-01-11");
+    expect(report?.averageSeverity).toBe(1);
+  });
+
+  it("averages each day's entries before averaging the period", () => {
+    const report = buildDoctorReport(
+      [
+        entry("2026-03-01", 1, { timeOfDay: "morning" }),
+        entry("2026-03-01", 4),
+        entry("2026-03-02", 4),
+      ],
+      [],
+      {},
+      actionItems,
+    );
+
+    expect(report?.days[0].severity).toBe(2.5);
+    expect(report?.averageSeverity).toBe(3.3);
+  });
+
+  it("counts medicated days per medication and compares them with the rest", () => {
+    const report = buildDoctorReport(
+      [
+        entry("2026-03-01", 2, { medicated: true }),
+        entry("2026-03-02", 3, { tookMedicine: true }),
+        entry("2026-03-03", 5),
+      ],
+      [medication],
+      {},
+      actionItems,
+    );
+
+    expect(report?.medicatedDays).toBe(2);
+    expect(report?.medicationUsage).toEqual([{ medication, days: 1 }]);
+    expect(report?.comparison).toEqual({
+      medicatedAverage: 2.5,
+      unmedicatedAverage: 5,
+      medicatedDays: 2,
+      unmedicatedDays: 1,
+    });
+  });
+
+  it("lists the worst days, newest first on ties, with their weather context", () => {
+    const context = logContext();
+    const entries = [1, 4, 2, 4, 3, 5, 1].map((severity, index) =>
+      entry(addDays("2026-03-01", index), severity),
+    );
+    entries[5] = { ...entries[5], context };
+    const report = buildDoctorReport(entries, [], {}, actionItems);
+
+    expect(report?.worstDays).toHaveLength(REPORT_WORST_DAYS);
+    expect(report?.worstDays.map((day) => day.date)).toEqual([
+      "2026-03-06",
+      "2026-03-04",
+      "2026-03-02",
+      "2026-03-05",
+      "2026-03-03",
+    ]);
+    expect(report?.worstDays[0].context).toEqual(context);
+    expect(report?.worstDays[1].context).toBeUndefined();
+  });
+
+  it("averages checklist completion only within the report period", () => {
+    const report = buildDoctorReport(
+      [entry("2026-03-01", 2), entry("2026-03-03", 2)],
+      [],
+      {
+        "2026-02-28": {},
+        "2026-03-01": { mask: true, glasses: true },
+        "2026-03-02": { mask: true },
+        "2026-03-04": {},
+      },
+      actionItems,
+    );
+
+    expect(report?.checklistCompletion).toBe(75);
+  });
+
+  it("leaves checklist completion empty without checklist days in the period", () => {
+    const report = buildDoctorReport(
+      [entry("2026-03-01", 2)],
+      [],
+      { "2026-02-01": { mask: true } },
+      actionItems,
+    );
+
+    expect(report?.checklistCompletion).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { completionRate, type ActionHistory, type ActionItem } from "./action-checklist";
+import { addDays } from "./date";
+import {
+  medicationComparison,
+  tookAnyMedicine,
+  type Medication,
+  type MedicationComparison,
+} from "./medication";
+import {
+  averageSeverity,
+  dailySeverities,
+  type LogContext,
+  type SymptomEntry,
+} from "./symptom-log";
+
+export const REPORT_MAX_DAYS = 120;
+export const REPORT_WORST_DAYS = 5;
+
+export type ReportDay = {
+  date: string;
+  severity: number | null;
+  medicated: boolean;
+};
+
+export type WorstDay = {
+  date: string;
+  severity: number;
+  context?: LogContext;
+};
+
+export type MedicationUsage = {
+  medication: Medication;
+  days: number;
+};
+
+export type DoctorReport = {
+  startDate: string;
+  endDate: string;
+  loggedDays: number;
+  averageSeverity: number;
+  days: ReportDay[];
+  medicatedDays: number;
+  medicationUsage: MedicationUsage[];
+  comparison: MedicationComparison;
+  worstDays: WorstDay[];
+  checklistCompletion: number | null;
+};
+
+export function buildDoctorReport(
+  entries: SymptomEntry[],
+  medications: Medication[],
+  actionHistory: ActionHistory,
+  actionItems: ActionItem[],
+): DoctorReport | null {
+  const logged = dailySeverities(entries).slice(0, REPORT_MAX_DAYS);
+  if (logged.length === 0) return null;
+
+  const endDate = logged[0].date;
+  const startDate = logged[logged.length - 1].date;
+  const byDate = new Map(logged.map((day) => [day.date, day]));
+
+  const days: ReportDay[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const day = byDate.get(date);
+    days.push({
+      date,
+      severity: day?.severity ?? null,
+      medicated: day?.entries.some(tookAnyMedicine) ?? false,
+    });
+  }
+
+  const medicationUsage = medications.map((medication) => ({
+    medication,
+    days: logged.filter((day) =>
+      day.entries.some((entry) =>
+        entry.medications?.some((intake) => intake.medicationId === medication.id),
+      ),
+    ).length,
+  }));
+
+  const worstDays = [...logged]
+    .sort((a, b) => b.severity - a.severity || (a.date < b.date ? 1 : -1))
+    .slice(0, REPORT_WORST_DAYS)
+    .map((day) => ({
+      date: day.date,
+      severity: day.severity,
+      context: day.entries.find((entry) => entry.context)?.context,
+    }));
+
+  const checklistRates = Object.entries(actionHistory)
+    .filter(([date]) => date >= startDate && date <= endDate)
+    .map(([, state]) => completionRate(state, actionItems));
+
+  return {
+    startDate,
+    endDate,
+    loggedDays: logged.length,
+    averageSeverity: averageSeverity(logged) ?? 0,
+    days,
+    medicatedDays: days.filter((day) => day.medicated).length,
+    medicationUsage,
+    comparison: medicationComparison(logged),
+    worstDays,
+    checklistCompletion:
+      checklistRates.length > 0
+        ? Math.round(checklistRates.reduce((sum, rate) => sum + rate, 0) / checklistRates.length)
+        : null,
+  };
+}
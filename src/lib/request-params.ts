@@ -0,0 +1,5 @@
+export function parseCoordinate(value: string | null, limit: number) {
+  if (value === null || value.trim() === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) && Math.abs(num) <= limit ? num : null;
+}
@@ -0,0 +1,232 @@
+import { addDays, jstMonth, toJstDateString, toJstTimeString } from "./date";
+import {
+  collectObservations,
+  createDefaultObservationSources,
+  type PollenObservation,
+} from "./observations";
+import {
+  MAX_AIR_QUALITY_DAYS,
+  MAX_FORECAST_DAYS,
+  dailyAirMeans,
+  fetchAirQuality,
+  fetchForecast,
+  parseNumber,
+  type AirQualityQuery,
+  type AirQualityResponse,
+} from "./open-meteo";
+import {
+  blendRiskWithObservation,
+  estimateHourlyRisk,
+  estimatePollenTypeStatus,
+  estimateRisk,
+  findBestWindows,
+  forecastConfidence,
+  measuredPollenTypeStatus,
+  observationScore,
+  overallObservedScore,
+  type ForecastDay,
+  type HourlyRisk,
+  type PollenTypeStatus,
+  type RiskResult,
+  type RiskWindow,
+  type WeatherSnapshot,
+} from "./scoring";
+
+export const FORECAST_DAYS = 7;
+export const HOURLY_HOURS = 48;
+
+const observationSources = createDefaultObservationSources();
+
+export type RiskQuery = {
+  lat: number;
+  lon: number;
+  date?: string;
+  days?: number;
+};
+
+export type RiskLookup = {
+  lat: number;
+  lon: number;
+  date: string;
+  days: number;
+  weather: WeatherSnapshot;
+  risk: RiskResult;
+  forecast: ForecastDay[];
+  hourly: HourlyRisk[];
+  bestWindows: RiskWindow[];
+  pollenTypes: PollenTypeStatus[];
+  observations: PollenObservation[];
+};
+
+export function lastForecastDate(today: string) {
+  return addDays(today, MAX_FORECAST_DAYS - 1);
+}
+
+function earlierDate(a: string, b: string) {
+  return a < b ? a : b;
+}
+
+// Open-Meteo rejects ranges past its horizons, so a future start date is cut
+// to what each API can answer. Air quality only reaches a few days ahead; past
+// that the current PM values stand in, as they do when the API is down.
+function fetchAirForRisk(query: AirQualityQuery, today: string) {
+  const lastAirDate = addDays(today, MAX_AIR_QUALITY_DAYS - 1);
+  if (query.startDate && query.startDate > lastAirDate) {
+    return Promise.resolve<AirQualityResponse>({});
+  }
+  return fetchAirQuality({
+    ...query,
+    endDate: query.endDate ? earlierDate(query.endDate, lastAirDate) : undefined,
+  }).catch((): AirQualityResponse => ({}));
+}
+
+export async function lookupRisk(query: RiskQuery): Promise<RiskLookup> {
+  const now = new Date();
+  const today = toJstDateString(now);
+  const date = query.date ?? today;
+  const isToday = date === today;
+  const days = query.days ?? FORECAST_DAYS;
+  const airDays = Math.min(days, MAX_AIR_QUALITY_DAYS);
+  const startDate = isToday ? undefined : date;
+
+  const [weatherData, airData, observations] = await Promise.all([
+    fetchForecast({
+      lat: query.lat,
+      lon: query.lon,
+      current: ["temperature_2m", "relative_humidity_2m", "wind_speed_10m", "precipitation"],
+      hourly: ["temperature_2m", "relative_humidity_2m", "wind_speed_10m", "precipitation"],
+      daily: [
+        "temperature_2m_max",
+        "relative_humidity_2m_mean",
+        "wind_speed_10m_max",
+        "wind_direction_10m_dominant",
+        "precipitation_sum",
+        "precipitation_probability_max",
+      ],
+      forecastDays: days,
+      startDate,
+      endDate: startDate
+        ? earlierDate(addDays(startDate, days - 1), lastForecastDate(today))
+        : undefined,
+    }),
+    fetchAirForRisk(
+      {
+        lat: query.lat,
+        lon: query.lon,
+        current: ["pm10", "pm2_5"],
+        hourly: ["pm10", "pm2_5"],
+        forecastDays: airDays,
+        startDate,
+        endDate: startDate ? addDays(startDate, airDays - 1) : undefined,
+      },
+      today,
+    ),
+    isToday
+      ? collectObservations(observationSources, { lat: query.lat, lon: query.lon, date })
+      : Promise.resolve([]),
+  ]);
+
+  const current: WeatherSnapshot = {
+    temperature: parseNumber(weatherData.current?.temperature_2m, 12),
+    humidity: parseNumber(weatherData.current?.relative_humidity_2m, 50),
+    wind: parseNumber(weatherData.current?.wind_speed_10m, 2),
+    precipitation: parseNumber(weatherData.current?.precipitation, 0),
+    pm10: parseNumber(airData.current?.pm10, 20),
+    pm25: parseNumber(airData.current?.pm2_5, 10),
+  };
+
+  const daily = weatherData.daily;
+  const times = daily?.time ?? [];
+
+  const dailyInputs = times.map((day, index) => {
+    const air = dailyAirMeans(airData, day);
+    return {
+      date: day,
+      windDirection: parseNumber(daily?.wind_direction_10m_dominant?.[index], 0),
+      precipitationProbability: parseNumber(daily?.precipitation_probability_max?.[index], 0),
+      weather: {
+        temperature: parseNumber(daily?.temperature_2m_max?.[index], current.temperature),
+        humidity: parseNumber(daily?.relative_humidity_2m_mean?.[index], current.humidity),
+        wind: parseNumber(daily?.wind_speed_10m_max?.[index], current.wind),
+        precipitation: parseNumber(daily?.precipitation_sum?.[index], 0),
+        pm10: parseNumber(air.pm10, current.pm10),
+        pm25: parseNumber(air.pm25, current.pm25),
+      },
+    };
+  });
+
+  const forecast: ForecastDay[] = dailyInputs.map((day, index) => {
+    const result = estimateRisk({
+      date: new Date(day.date),
+      precipitationProbability: day.precipitationProbability,
+      ...day.weather,
+    });
+    return {
+      date: day.date,
+      score: result.score,
+      level: result.level,
+      ...day.weather,
+      windDirection: day.windDirection,
+      precipitationProbability: day.precipitationProbability,
+      confidence: forecastConfidence(index),
+    };
+  });
+
+  const hourlyTimes = (weatherData.hourly?.time ?? []).slice(0, HOURLY_HOURS);
+  const airTimes = airData.hourly?.time ?? [];
+  const hourly: HourlyRisk[] = hourlyTimes.map((time, index) => {
+    const airIndex = airTimes.indexOf(time);
+    return estimateHourlyRisk(time, {
+      temperature: parseNumber(weatherData.hourly?.temperature_2m?.[index], current.temperature),
+      humidity: parseNumber(weatherData.hourly?.relative_humidity_2m?.[index], current.humidity),
+      wind: parseNumber(weatherData.hourly?.wind_speed_10m?.[index], current.wind),
+      precipitation: parseNumber(weatherData.hourly?.precipitation?.[index], 0),
+      pm10: parseNumber(airData.hourly?.pm10?.[airIndex], current.pm10),
+      pm25: parseNumber(airData.hourly?.pm2_5?.[airIndex], current.pm25),
+    });
+  });
+
+  const referenceDate = isToday ? now : new Date(date);
+  const firstDay = isToday ? undefined : dailyInputs[0];
+  const weather = firstDay?.weather ?? current;
+  const estimatedRisk = estimateRisk({
+    date: referenceDate,
+    precipitationProbability: firstDay?.precipitationProbability,
+    ...weather,
+  });
+  const estimatedTypes = estimatePollenTypeStatus(
+    jstMonth(referenceDate),
+    weather,
+    estimatedRisk.score,
+  );
+
+  const observedScores = new Map(
+    observations.map((item) => [item.pollenType, observationScore(item.grainsPerM3)]),
+  );
+  const pollenTypes = estimatedTypes
+    .map((type) => {
+      const observed = observedScores.get(type.id);
+      return observed === undefined ? type : measuredPollenTypeStatus(type, observed);
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const overallObserved = overallObservedScore(observedScores, estimatedTypes);
+  const risk =
+    overallObserved === undefined
+      ? estimatedRisk
+      : blendRiskWithObservation(estimatedRisk, overallObserved);
+
+  return {
+    lat: query.lat,
+    lon: query.lon,
+    date,
+    days,
+    weather,
+    risk,
+    forecast,
+    hourly,
+    bestWindows: findBestWindows(hourly, `${today}T${toJstTimeString(now)}`),
+    pollenTypes,
+    observations,
+  };
+}
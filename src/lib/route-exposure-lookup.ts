@@ -0,0 +1,103 @@
+import type { GeoPoint } from "./geo";
+import {
+  fetchAirQualityBatch,
+  fetchForecastBatch,
+  parseNumber,
+  type AirQualityResponse,
+} from "./open-meteo";
+import {
+  routeExposure,
+  routeOffsets,
+  sampleRoute,
+  snapToRouteGrid,
+  toMinutes,
+  type RoutePlan,
+  type RouteStop,
+} from "./route-exposure";
+import { estimateHourlyRisk } from "./scoring";
+
+export type RouteQuery = {
+  date: string;
+  stops: RouteStop[];
+  windowStart: string;
+  windowEnd: string;
+};
+
+function gridKey(point: GeoPoint) {
+  const snapped = snapToRouteGrid(point);
+  return `${snapped.lat},${snapped.lon}`;
+}
+
+export async function lookupRouteExposure(query: RouteQuery): Promise<RoutePlan> {
+  const samples = sampleRoute(query.stops);
+  const grid = [...new Map(samples.map((sample) => [gridKey(sample), snapToRouteGrid(sample)]))];
+  const points = grid.map(([, point]) => point);
+
+  const [responses, airResponses] = await Promise.all([
+    fetchForecastBatch({
+      points,
+      hourly: ["temperature_2m", "relative_humidity_2m", "wind_speed_10m", "precipitation"],
+      startDate: query.date,
+      endDate: query.date,
+    }),
+    fetchAirQualityBatch({
+      points,
+      hourly: ["pm10", "pm2_5"],
+      startDate: query.date,
+      endDate: query.date,
+    }).catch((): AirQualityResponse[] => []),
+  ]);
+
+  const hourlyScores = new Map(
+    grid.map(([key], index) => {
+      const hourly = responses[index]?.hourly;
+      const air = airResponses[index]?.hourly;
+      const airTimes = air?.time ?? [];
+      const scores = (hourly?.time ?? []).map((time, hour) => {
+        const airIndex = airTimes.indexOf(time);
+        return estimateHourlyRisk(time, {
+          temperature: parseNumber(hourly?.temperature_2m?.[hour], 12),
+          humidity: parseNumber(hourly?.relative_humidity_2m?.[hour], 50),
+          wind: parseNumber(hourly?.wind_speed_10m?.[hour], 2),
+          precipitation: parseNumber(hourly?.precipitation?.[hour], 0),
+          pm10: parseNumber(air?.pm10?.[airIndex], 20),
+          pm25: parseNumber(air?.pm2_5?.[airIndex], 10),
+        }).score;
+      });
+      return [key, scores];
+    }),
+  );
+
+  if ([...hourlyScores.values()].every((scores) => scores.length === 0)) {
+    throw new Error("route forecast fetch failed");
+  }
+
+  // A cell without data for the hour borrows the nearest cell that has it.
+  const scoreAt = (point: GeoPoint, minute: number) => {
+    const hour = Math.floor(minute / 60);
+    const own = hourlyScores.get(gridKey(point))?.[hour];
+    if (own !== undefined) return own;
+    let nearest: { distance: number; score: number } | null = null;
+    for (const [key, cell] of grid) {
+      const score = hourlyScores.get(key)?.[hour];
+      if (score === undefined) continue;
+      const distance = (cell.lat - point.lat) ** 2 + (cell.lon - point.lon) ** 2;
+      if (!nearest || distance < nearest.distance) nearest = { distance, score };
+    }
+    return nearest?.score ?? null;
+  };
+
+  const departure = toMinutes(query.stops[0].time);
+  const arrival = toMinutes(query.stops[query.stops.length - 1].time);
+  const planned = routeExposure(samples, 0, departure, arrival, scoreAt);
+  const candidates = routeOffsets(query.stops, query.windowStart, query.windowEnd).map(
+    (offset) => routeExposure(samples, offset, departure, arrival, scoreAt),
+  );
+  const best = candidates.reduce(
+    (lowest, candidate) =>
+      candidate.coverage > 0 && candidate.exposure < lowest.exposure ? candidate : lowest,
+    planned,
+  );
+
+  return { date: query.date, planned, best, candidates };
+}
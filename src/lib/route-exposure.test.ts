@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatRouteStops,
+  isRouteInOrder,
+  parseRouteStops,
+  routeExposure,
+  routeOffsets,
+  sampleRoute,
+  snapToRouteGrid,
+  toMinutes,
+  type RouteStop,
+} from "./route-exposure";
+
+const commute: RouteStop[] = [
+  { lat: 35.68, lon: 139.77, time: "08:00" },
+  { lat: 35.69, lon: 139.7, time: "09:00" },
+];
+
+describe("parseRouteStops / formatRouteStops", () => {
+  it("round-trips stops", () => {
+    const value = formatRouteStops(commute);
+    expect(value).toBe("35.68,139.77,08:00;35.69,139.7,09:00");
+    expect(parseRouteStops(value)).toEqual(commute);
+  });
+
+  it("ignores empty segments", () => {
+    expect(parseRouteStops("35.68,139.77,08:00;;35.69,139.7,09:00;")).toEqual(commute);
+  });
+
+  it.each([
+    ["35.68,139.77"],
+    ["35.68,139.77,8:00"],
+    ["35.68,139.77,24:00"],
+    ["91,139.77,08:00"],
+    ["35.68,181,08:00"],
+    ["abc,139.77,08:00"],
+    [",139.77,08:00"],
+  ])("rejects %s", (value) => {
+    expect(parseRouteStops(value)).toBeNull();
+  });
+});
+
+describe("isRouteInOrder", () => {
+  it("requires strictly increasing times", () => {
+    expect(isRouteInOrder(commute)).toBe(true);
+    expect(isRouteInOrder([commute[0], { ...commute[1], time: "08:00" }])).toBe(false);
+    expect(isRouteInOrder([commute[1], commute[0]])).toBe(false);
+  });
+});
+
+describe("snapToRouteGrid", () => {
+  it("rounds to the 0.1° grid", () => {
+    expect(snapToRouteGrid({ lat: 35.6764, lon: 139.76 })).toEqual({ lat: 35.7, lon: 139.8 });
+    expect(snapToRouteGrid({ lat: 34.64, lon: 135.5023 })).toEqual({ lat: 34.6, lon: 135.5 });
+  });
+});
+
+describe("sampleRoute", () => {
+  it("samples the middle of each step, with a shorter final step", () => {
+    const samples = sampleRoute([
+      { lat: 0, lon: 0, time: "08:00" },
+      { lat: 0, lon: 1, time: "08:25" },
+    ]);
+    expect(samples.map((sample) => [sample.minute, sample.minutes])).toEqual([
+      [485, 10],
+      [495, 10],
+      [502.5, 5],
+    ]);
+    expect(samples.map((sample) => sample.lon)).toEqual([0.2, 0.6, 0.9]);
+  });
+
+  it("covers every leg of the route", () => {
+    const samples = sampleRoute([
+      { lat: 0, lon: 0, time: "08:00" },
+      { lat: 0, lon: 1, time: "08:20" },
+      { lat: 1, lon: 1, time: "08:40" },
+    ]);
+    expect(samples).toHaveLength(4);
+    expect(samples.reduce((sum, sample) => sum + sample.minutes, 0)).toBe(40);
+    expect(samples[2]).toMatchObject({ lat: 0.25, lon: 1, minute: 505 });
+  });
+});
+
+describe("routeOffsets", () => {
+  it("steps departures across the window relative to the planned one", () => {
+    expect(routeOffsets(commute, "07:00", "08:20")).toEqual([
+      -60, -50, -40, -30, -20, -10, 0, 10, 20,
+    ]);
+  });
+
+  it("drops departures that would arrive after midnight", () => {
+    const late: RouteStop[] = [
+      { ...commute[0], time: "22:00" },
+      { ...commute[1], time: "23:30" },
+    ];
+    expect(routeOffsets(late, "22:00", "22:40")).toEqual([0, 10, 20]);
+  });
+});
+
+describe("routeExposure", () => {
+  const samples = sampleRoute(commute);
+  const departure = toMinutes(commute[0].time);
+  const arrival = toMinutes(commute[1].time);
+  const scoreAt = (_point: unknown, minute: number) => (minute < 510 ? 40 : 100);
+
+  it("sums score-hours along the route", () => {
+    expect(routeExposure(samples, 0, departure, arrival, scoreAt)).toEqual({
+      departure: "08:00",
+      arrival: "09:00",
+      exposure: 70,
+      averageScore: 70,
+      peakScore: 100,
+      coverage: 1,
+    });
+  });
+
+  it("shifts the sampled minutes by the offset", () => {
+    expect(routeExposure(samples, 30, departure, arrival, scoreAt)).toEqual({
+      departure: "08:30",
+      arrival: "09:30",
+      exposure: 100,
+      averageScore: 100,
+      peakScore: 100,
+      coverage: 1,
+    });
+  });
+
+  it("leaves unscored samples out instead of counting them as zero", () => {
+    const partial = (_point: unknown, minute: number) => (minute < 510 ? null : 100);
+    expect(routeExposure(samples, 0, departure, arrival, partial)).toEqual({
+      departure: "08:00",
+      arrival: "09:00",
+      exposure: 100,
+      averageScore: 100,
+      peakScore: 100,
+      coverage: 0.5,
+    });
+    expect(routeExposure(samples, 0, departure, arrival, () => null)).toMatchObject({
+      exposure: 0,
+      coverage: 0,
+    });
+  });
+});
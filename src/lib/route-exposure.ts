@@ -0,0 +1,153 @@
+import { isTimeString } from "./date";
+import type { GeoPoint } from "./geo";
+import { parseCoordinate } from "./request-params";
+
+export const MIN_ROUTE_STOPS = 2;
+export const MAX_ROUTE_STOPS = 6;
+export const ROUTE_SAMPLE_MINUTES = 10;
+export const ROUTE_WINDOW_STEP_MINUTES = 10;
+export const ROUTE_GRID_DEGREES = 0.1;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// `time` is when the stop is left; for the last stop it is the arrival time.
+export type RouteStop = GeoPoint & {
+  time: string;
+};
+
+export type RouteSample = GeoPoint & {
+  minute: number;
+  minutes: number;
+};
+
+export type RouteExposure = {
+  departure: string;
+  arrival: string;
+  exposure: number;
+  averageScore: number;
+  peakScore: number;
+  // Share of the travel minutes that had forecast data, from 0 to 1.
+  coverage: number;
+};
+
+export type RoutePlan = {
+  date: string;
+  planned: RouteExposure;
+  best: RouteExposure;
+  candidates: RouteExposure[];
+};
+
+export function toMinutes(time: string) {
+  return Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+}
+
+export function fromMinutes(minute: number) {
+  const hour = Math.floor(minute / 60);
+  return `${String(hour).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+}
+
+export function formatRouteStops(stops: RouteStop[]) {
+  return stops.map((stop) => `${stop.lat},${stop.lon},${stop.time}`).join(";");
+}
+
+export function parseRouteStops(value: string): RouteStop[] | null {
+  const stops = value
+    .split(";")
+    .filter(Boolean)
+    .map((part) => {
+      const [lat, lon, time] = part.split(",");
+      return {
+        lat: parseCoordinate(lat ?? null, 90),
+        lon: parseCoordinate(lon ?? null, 180),
+        time: time ?? "",
+      };
+    });
+  if (stops.some((stop) => stop.lat === null || stop.lon === null || !isTimeString(stop.time))) {
+    return null;
+  }
+  return stops as RouteStop[];
+}
+
+export function isRouteInOrder(stops: RouteStop[]) {
+  return stops.every(
+    (stop, index) => index === 0 || toMinutes(stop.time) > toMinutes(stops[index - 1].time),
+  );
+}
+
+export function snapToRouteGrid(point: GeoPoint): GeoPoint {
+  const snap = (value: number) =>
+    Math.round(Math.round(value / ROUTE_GRID_DEGREES) * ROUTE_GRID_DEGREES * 100) / 100;
+  return { lat: snap(point.lat), lon: snap(point.lon) };
+}
+
+// Each leg is walked in fixed steps and the position at the middle of every
+// step stands in for that stretch, weighted by the minutes it covers.
+export function sampleRoute(stops: RouteStop[]): RouteSample[] {
+  const samples: RouteSample[] = [];
+  for (let index = 0; index + 1 < stops.length; index += 1) {
+    const from = stops[index];
+    const to = stops[index + 1];
+    const start = toMinutes(from.time);
+    const duration = toMinutes(to.time) - start;
+
+    for (let offset = 0; offset < duration; offset += ROUTE_SAMPLE_MINUTES) {
+      const minutes = Math.min(ROUTE_SAMPLE_MINUTES, duration - offset);
+      const ratio = (offset + minutes / 2) / duration;
+      samples.push({
+        lat: from.lat + (to.lat - from.lat) * ratio,
+        lon: from.lon + (to.lon - from.lon) * ratio,
+        minute: start + offset + minutes / 2,
+        minutes,
+      });
+    }
+  }
+  return samples;
+}
+
+export function routeOffsets(stops: RouteStop[], windowStart: string, windowEnd: string) {
+  const departure = toMinutes(stops[0].time);
+  const arrival = toMinutes(stops[stops.length - 1].time);
+  const offsets: number[] = [];
+  for (
+    let start = toMinutes(windowStart);
+    start <= toMinutes(windowEnd);
+    start += ROUTE_WINDOW_STEP_MINUTES
+  ) {
+    const offset = start - departure;
+    if (arrival + offset < MINUTES_PER_DAY) offsets.push(offset);
+  }
+  return offsets;
+}
+
+// Samples without a score are left out rather than counted as zero, and the
+// exposure is scaled up from the minutes that were scored so a window with
+// missing data does not look better than it is.
+export function routeExposure(
+  samples: RouteSample[],
+  offset: number,
+  departure: number,
+  arrival: number,
+  scoreAt: (point: GeoPoint, minute: number) => number | null,
+): RouteExposure {
+  let scored = 0;
+  let scoredMinutes = 0;
+  let peakScore = 0;
+  for (const sample of samples) {
+    const score = scoreAt(sample, sample.minute + offset);
+    if (score === null) continue;
+    scored += score * sample.minutes;
+    scoredMinutes += sample.minutes;
+    peakScore = Math.max(peakScore, score);
+  }
+  const minutes = arrival - departure;
+  const averageScore = scoredMinutes > 0 ? scored / scoredMinutes : 0;
+
+  return {
+    departure: fromMinutes(departure + offset),
+    arrival: fromMinutes(arrival + offset),
+    exposure: Math.round(((averageScore * minutes) / 60) * 10) / 10,
+    averageScore: Math.round(averageScore),
+    peakScore,
+    coverage: minutes > 0 ? Math.round((scoredMinutes / minutes) * 100) / 100 : 0,
+  };
+}
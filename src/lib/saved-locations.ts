@@ -0,0 +1,33 @@
+import { isLocationOption, type LocationOption } from "./geo";
+
+export const SAVED_LOCATIONS_STORAGE_KEY = "kafun-saved-locations-v1";
+export const MAX_SAVED_LOCATIONS = 8;
+
+export function loadSavedLocations(storage: Storage): LocationOption[] {
+  const raw = storage.getItem(SAVED_LOCATIONS_STORAGE_KEY);
+  if (!raw) return [];
+  return (JSON.parse(raw) as unknown[]).filter(isLocationOption);
+}
+
+export function saveSavedLocations(storage: Storage, locations: LocationOption[]) {
+  storage.setItem(SAVED_LOCATIONS_STORAGE_KEY, JSON.stringify(locations));
+}
+
+export function createSavedLocation(name: string, lat: number, lon: number): LocationOption {
+  return {
+    id: `saved-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    lat: Number(lat.toFixed(4)),
+    lon: Number(lon.toFixed(4)),
+  };
+}
+
+export function moveSavedLocation(locations: LocationOption[], id: string, offset: number) {
+  const from = locations.findIndex((location) => location.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= locations.length) return locations;
+  const next = [...locations];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  MIN_CALIBRATION_SAMPLES,
+  extractFeatures,
+  fitCalibrationModel,
+  personalRisk,
+  predictSeverity,
+  topPredictors,
+  type CalibrationSample,
+} from "./calibration";
+import { weatherFixtures } from "./fixtures/weather";
+import { riskLevel } from "./level";
+import { estimateRisk } from "./risk";
+import type { DailyRiskContext } from "./types";
+
+const weather = weatherFixtures[0].input;
+
+function context(score: number, wind = weather.wind): DailyRiskContext {
+  const risk = estimateRisk(weather);
+  return {
+    risk: { ...risk, score, level: riskLevel(score) },
+    weather: { ...weather, wind },
+    pollenTypes: [{ id: "cedar", score: 70, level: "高い", source: "estimated" }],
+  };
+}
+
+// Severity follows the risk score exactly; wind varies but carries no signal.
+const samples: CalibrationSample[] = [20, 35, 50, 65, 80, 95].map((score, index) => ({
+  ...context(score, [4, 1, 6, 2, 5, 3][index]),
+  severity: score / 10,
+}));
+
+describe("extractFeatures", () => {
+  it("reads the risk, pollen types and weather, with 0 for missing types", () => {
+    expect(extractFeatures(context(60))).toEqual({
+      risk: 60,
+      cedar: 70,
+      cypress: 0,
+      grass: 0,
+      ragweed: 0,
+      birch: 0,
+      temperature: weather.temperature,
+      humidity: weather.humidity,
+      wind: weather.wind,
+      pm25: weather.pm25,
+      pm10: weather.pm10,
+      precipitation: weather.precipitation,
+    });
+  });
+});
+
+describe("fitCalibrationModel", () => {
+  it(`needs at least ${MIN_CALIBRATION_SAMPLES} samples`, () => {
+    expect(fitCalibrationModel(samples.slice(0, MIN_CALIBRATION_SAMPLES - 1))).toBeNull();
+  });
+
+  it("learns a positive weight for the feature that tracks severity", () => {
+    const model = fitCalibrationModel(samples);
+    expect(model).not.toBeNull();
+    if (!model) return;
+
+    expect(model.sampleCount).toBe(samples.length);
+    expect(model.intercept).toBe(5.75);
+    const risk = model.weights.find((item) => item.feature === "risk");
+    const wind = model.weights.find((item) => item.feature === "wind");
+    expect(risk?.weight).toBeGreaterThan(1);
+    expect(Math.abs(wind?.weight ?? 0)).toBeLessThan(risk?.weight ?? 0);
+  });
+
+  it("gives constant features a unit spread and no weight", () => {
+    const model = fitCalibrationModel(samples);
+    const cedar = model?.weights.find((item) => item.feature === "cedar");
+    expect(cedar).toEqual({ feature: "cedar", mean: 70, std: 1, weight: 0 });
+  });
+});
+
+describe("predictSeverity and personalRisk", () => {
+  const model = fitCalibrationModel(samples);
+
+  it("predicts higher severity on riskier days and stays within 0-10", () => {
+    if (!model) throw new Error("model expected");
+    const calm = predictSeverity(model, context(25));
+    const severe = predictSeverity(model, context(90));
+    expect(severe).toBeGreaterThan(calm);
+    expect(predictSeverity(model, context(1000))).toBe(10);
+    expect(predictSeverity(model, context(-1000))).toBe(0);
+  });
+
+  it("maps the predicted severity onto the 0-100 risk scale", () => {
+    if (!model) throw new Error("model expected");
+    const result = personalRisk(model, context(80));
+    expect(result.score).toBe(Math.round(result.severity * 10));
+    expect(result.level).toBe(riskLevel(result.score));
+  });
+});
+
+describe("topPredictors", () => {
+  it("keeps positive weights, strongest first", () => {
+    const model = {
+      sampleCount: 6,
+      intercept: 5,
+      weights: [
+        { feature: "wind" as const, mean: 0, std: 1, weight: 0.4 },
+        { feature: "risk" as const, mean: 0, std: 1, weight: 1.2 },
+        { feature: "humidity" as const, mean: 0, std: 1, weight: -0.8 },
+        { feature: "cedar" as const, mean: 0, std: 1, weight: 0.1 },
+      ],
+    };
+    expect(topPredictors(model, 2).map((item) => item.feature)).toEqual(["risk", "wind"]);
+    expect(topPredictors(model).map((item) => item.feature)).toEqual(["risk", "wind", "cedar"]);
+  });
+});
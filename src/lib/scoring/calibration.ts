@@ -0,0 +1,161 @@
+import { riskLevel } from "./level";
+import { clamp, roundTo } from "./math";
+import { pollenCatalog } from "./pollen";
+import type { DailyRiskContext, PollenTypeId, RiskLevel } from "./types";
+
+export const MIN_CALIBRATION_SAMPLES = 5;
+
+export type CalibrationFeature =
+  | "risk"
+  | PollenTypeId
+  | "temperature"
+  | "humidity"
+  | "wind"
+  | "pm25"
+  | "pm10"
+  | "precipitation";
+
+export type CalibrationSample = DailyRiskContext & {
+  severity: number;
+};
+
+export type CalibrationWeight = {
+  feature: CalibrationFeature;
+  mean: number;
+  std: number;
+  weight: number;
+};
+
+export type CalibrationModel = {
+  sampleCount: number;
+  intercept: number;
+  weights: CalibrationWeight[];
+};
+
+export type PersonalRisk = {
+  score: number;
+  level: RiskLevel;
+  severity: number;
+};
+
+const calibrationFeatures: CalibrationFeature[] = [
+  "risk",
+  ...pollenCatalog.map((type) => type.id),
+  "temperature",
+  "humidity",
+  "wind",
+  "pm25",
+  "pm10",
+  "precipitation",
+];
+
+export function extractFeatures(context: DailyRiskContext): Record<CalibrationFeature, number> {
+  const pollenScore = (id: PollenTypeId) =>
+    context.pollenTypes.find((type) => type.id === id)?.score ?? 0;
+
+  return {
+    risk: context.risk.score,
+    cedar: pollenScore("cedar"),
+    cypress: pollenScore("cypress"),
+    grass: pollenScore("grass"),
+    ragweed: pollenScore("ragweed"),
+    birch: pollenScore("birch"),
+    temperature: context.weather.temperature,
+    humidity: context.weather.humidity,
+    wind: context.weather.wind,
+    pm25: context.weather.pm25,
+    pm10: context.weather.pm10,
+    precipitation: context.weather.precipitation,
+  };
+}
+
+function solveLinearSystem(matrix: number[][], vector: number[]) {
+  const size = vector.length;
+  const rows = matrix.map((row, index) => [...row, vector[index]]);
+
+  for (let col = 0; col < size; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row += 1) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    if (Math.abs(rows[col][col]) < 1e-12) continue;
+
+    for (let row = 0; row < size; row += 1) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= size; k += 1) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  return rows.map((row, index) => (Math.abs(row[index]) < 1e-12 ? 0 : row[size] / row[index]));
+}
+
+// Ridge regression on standardized features: with only a handful of logged days the
+// penalty keeps weights small instead of chasing noise in a single bad day.
+export function fitCalibrationModel(
+  samples: CalibrationSample[],
+  lambda = 1,
+): CalibrationModel | null {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  const rows = samples.map((sample) => extractFeatures(sample));
+  const intercept = samples.reduce((sum, sample) => sum + sample.severity, 0) / samples.length;
+  const target = samples.map((sample) => sample.severity - intercept);
+
+  const stats = calibrationFeatures.map((feature) => {
+    const values = rows.map((row) => row[feature]);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    return { feature, mean, std: Math.sqrt(variance) || 1 };
+  });
+
+  const design = rows.map((row) =>
+    stats.map((stat) => (row[stat.feature] - stat.mean) / stat.std),
+  );
+  const gram = stats.map((_, i) =>
+    stats.map((__, j) => {
+      const dot = design.reduce((sum, row) => sum + row[i] * row[j], 0);
+      return i === j ? dot + lambda : dot;
+    }),
+  );
+  const moment = stats.map((_, i) =>
+    design.reduce((sum, row, index) => sum + row[i] * target[index], 0),
+  );
+  const solved = solveLinearSystem(gram, moment);
+
+  return {
+    sampleCount: samples.length,
+    intercept: roundTo(intercept, 3),
+    weights: stats.map((stat, index) => ({
+      feature: stat.feature,
+      mean: roundTo(stat.mean, 3),
+      std: roundTo(stat.std, 3),
+      weight: roundTo(solved[index], 3),
+    })),
+  };
+}
+
+export function predictSeverity(model: CalibrationModel, context: DailyRiskContext) {
+  const features = extractFeatures(context);
+  const value = model.weights.reduce(
+    (sum, item) => sum + item.weight * ((features[item.feature] - item.mean) / item.std),
+    model.intercept,
+  );
+  return roundTo(clamp(value, 0, 10));
+}
+
+export function personalRisk(model: CalibrationModel, context: DailyRiskContext): PersonalRisk {
+  const severity = predictSeverity(model, context);
+  const score = Math.round(severity * 10);
+  return { score, level: riskLevel(score), severity };
+}
+
+export function topPredictors(model: CalibrationModel, count = 3) {
+  return [...model.weights]
+    .filter((item) => item.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, count);
+}
@@ -0,0 +1,152 @@
+import type { RiskBreakdown, RiskInput, RiskLevel } from "../types";
+
+export type WeatherFixture = {
+  name: string;
+  input: RiskInput;
+  score: number;
+  level: RiskLevel;
+  breakdown: RiskBreakdown;
+};
+
+// Expected values follow the formula the dashboard used before the scoring
+// module was extracted, so any drift in the engine shows up here.
+export const weatherFixtures: WeatherFixture[] = [
+  {
+    name: "dry, breezy day at the cedar peak",
+    input: {
+      date: new Date(2026, 2, 15),
+      temperature: 18,
+      humidity: 35,
+      wind: 5,
+      precipitation: 0,
+      pm10: 40,
+      pm25: 25,
+    },
+    score: 82,
+    level: "非常に高い",
+    breakdown: {
+      seasonal: 48,
+      temperature: 10.8,
+      wind: 8.7,
+      humidity: 7.8,
+      pm25: 4,
+      pm10: 2.5,
+      rain: 0,
+    },
+  },
+  {
+    name: "rainy, humid day in May",
+    input: {
+      date: new Date(2026, 4, 10),
+      temperature: 16,
+      humidity: 82,
+      wind: 1,
+      precipitation: 3.2,
+      pm10: 20,
+      pm25: 8,
+    },
+    score: 21,
+    level: "低い",
+    breakdown: {
+      seasonal: 36,
+      temperature: 7.2,
+      wind: 0,
+      humidity: -6,
+      pm25: 0,
+      pm10: 0,
+      rain: -16,
+    },
+  },
+  {
+    name: "cold, windy and polluted January day",
+    input: {
+      date: new Date(2026, 0, 20),
+      temperature: 2,
+      humidity: 45,
+      wind: 9,
+      precipitation: 0,
+      pm10: 90,
+      pm25: 60,
+    },
+    score: 43,
+    level: "やや高い",
+    breakdown: {
+      seasonal: 10,
+      temperature: -6,
+      wind: 20,
+      humidity: 1.8,
+      pm25: 9,
+      pm10: 8,
+      rain: 0,
+    },
+  },
+  {
+    name: "hot, dry summer gale",
+    input: {
+      date: new Date(2026, 7, 5),
+      temperature: 34,
+      humidity: 20,
+      wind: 12,
+      precipitation: 0,
+      pm10: 30,
+      pm25: 15,
+    },
+    score: 73,
+    level: "高い",
+    breakdown: {
+      seasonal: 16,
+      temperature: 22,
+      wind: 20,
+      humidity: 15,
+      pm25: 0,
+      pm10: 0,
+      rain: 0,
+    },
+  },
+  {
+    name: "every factor at its cap",
+    input: {
+      date: new Date(2026, 3, 1),
+      temperature: 30,
+      humidity: 10,
+      wind: 15,
+      precipitation: 0,
+      pm10: 100,
+      pm25: 80,
+    },
+    score: 100,
+    level: "非常に高い",
+    breakdown: {
+      seasonal: 48,
+      temperature: 22,
+      wind: 20,
+      humidity: 15,
+      pm25: 9,
+      pm10: 8,
+      rain: 0,
+    },
+  },
+  {
+    name: "freezing rain in December",
+    input: {
+      date: new Date(2026, 11, 3),
+      temperature: -5,
+      humidity: 90,
+      wind: 0,
+      precipitation: 10,
+      pm10: 0,
+      pm25: 0,
+    },
+    score: 0,
+    level: "低い",
+    breakdown: {
+      seasonal: 10,
+      temperature: -6,
+      wind: 0,
+      humidity: -6,
+      pm25: 0,
+      pm10: 0,
+      rain: -16,
+    },
+  },
+];
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { weatherFixtures } from "./fixtures/weather";
+import { diurnalAdjustment, estimateHourlyRisk, findBestWindows } from "./hourly";
+import { riskLevel } from "./level";
+import type { HourlyRisk } from "./types";
+
+function day(date: string, score: (hour: number) => number): HourlyRisk[] {
+  return Array.from({ length: 24 }, (_, hour) => {
+    const value = score(hour);
+    const time = `${date}T${String(hour).padStart(2, "0")}:00`;
+    return { time, score: value, level: riskLevel(value) };
+  });
+}
+
+describe("diurnalAdjustment", () => {
+  it.each([
+    [0, -8],
+    [5, -8],
+    [6, 0],
+    [9, 6],
+    [13, 2],
+    [17, 5],
+    [20, -4],
+    [23, -4],
+  ])("hour %i → %i", (hour, expected) => {
+    expect(diurnalAdjustment(hour)).toBe(expected);
+  });
+});
+
+describe("estimateHourlyRisk", () => {
+  const weather = weatherFixtures[0].input;
+
+  it("adds the time-of-day adjustment to the daily estimate", () => {
+    expect(estimateHourlyRisk("2026-03-15T10:00", weather)).toEqual({
+      time: "2026-03-15T10:00",
+      score: 88,
+      level: "非常に高い",
+    });
+    expect(estimateHourlyRisk("2026-03-15T03:00", weather).score).toBe(74);
+  });
+
+  it("takes the season from the JST date of the hour", () => {
+    const { temperature, humidity, wind, precipitation, pm10, pm25 } = weather;
+    const snapshot = { temperature, humidity, wind, precipitation, pm10, pm25 };
+    // 82 in March, minus the January/March seasonal gap (38) and the night-time 4.
+    expect(estimateHourlyRisk("2026-01-31T23:00", snapshot).score).toBe(40);
+  });
+
+  it("clamps to 0-100", () => {
+    expect(estimateHourlyRisk("2026-12-03T02:00", weatherFixtures[5].input).score).toBe(0);
+  });
+});
+
+describe("findBestWindows", () => {
+  const hours = [...day("2026-03-15", (hour) => hour), ...day("2026-03-16", (hour) => 30 - hour)];
+
+  it("picks the calmest daytime window for each date", () => {
+    expect(findBestWindows(hours)).toEqual([
+      { date: "2026-03-15", startHour: 6, endHour: 9, score: 7 },
+      { date: "2026-03-16", startHour: 17, endHour: 20, score: 12 },
+    ]);
+  });
+
+  it("skips windows that have already ended", () => {
+    expect(findBestWindows(hours, "2026-03-15T18:30")).toEqual([
+      { date: "2026-03-15", startHour: 16, endHour: 19, score: 17 },
+      { date: "2026-03-16", startHour: 17, endHour: 20, score: 12 },
+    ]);
+  });
+
+  it("drops a date once every daytime window is over", () => {
+    expect(findBestWindows(hours, "2026-03-15T20:00").map((item) => item.date)).toEqual([
+      "2026-03-16",
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { riskLevel } from "./level";
+import { clamp, roundTo } from "./math";
+import { estimateRisk } from "./risk";
+import type { HourlyRisk, RiskWindow, WeatherSnapshot } from "./types";
+
+const DAYTIME_START = 6;
+const DAYTIME_END = 20;
+
+export function diurnalAdjustment(hour: number) {
+  if (hour < 6) return -8;
+  if (hour < 9) return 0;
+  if (hour < 13) return 6;
+  if (hour < 17) return 2;
+  if (hour < 20) return 5;
+  return -4;
+}
+
+export function estimateHourlyRisk(time: string, weather: WeatherSnapshot): HourlyRisk {
+  const hour = Number(time.slice(11, 13));
+  // Hourly times are JST wall-clock times; only their date matters for the season.
+  const base = estimateRisk({ date: new Date(time.slice(0, 10)), ...weather });
+  const score = Math.round(clamp(base.score + diurnalAdjustment(hour), 0, 100));
+
+  return {
+    time,
+    score,
+    level: riskLevel(score),
+  };
+}
+
+// `now` is a local "YYYY-MM-DDTHH:mm" time in the same zone as the hourly data;
+// windows that have already ended by then are not suggested.
+export function findBestWindows(hours: HourlyRisk[], now?: string, length = 3): RiskWindow[] {
+  const byDate = new Map<string, HourlyRisk[]>();
+  for (const item of hours) {
+    const date = item.time.slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) ?? []), item]);
+  }
+
+  const windows: RiskWindow[] = [];
+  for (const [date, list] of byDate) {
+    let best: RiskWindow | null = null;
+
+    for (let index = 0; index + length <= list.length; index += 1) {
+      const slice = list.slice(index, index + length);
+      const startHour = Number(slice[0].time.slice(11, 13));
+      const endHour = startHour + length;
+      if (startHour < DAYTIME_START || endHour > DAYTIME_END) continue;
+      if (now && `${date}T${String(endHour).padStart(2, "0")}:00` <= now) continue;
+
+      const score = roundTo(slice.reduce((sum, item) => sum + item.score, 0) / length);
+      if (!best || score < best.score) {
+        best = { date, startHour, endHour, score };
+      }
+    }
+
+    if (best) windows.push(best);
+  }
+
+  return windows;
+}
@@ -0,0 +1,51 @@
+export {
+  MIN_CALIBRATION_SAMPLES,
+  extractFeatures,
+  fitCalibrationModel,
+  personalRisk,
+  predictSeverity,
+  topPredictors,
+} from "./calibration";
+export { diurnalAdjustment, estimateHourlyRisk, findBestWindows } from "./hourly";
+export { isLevelAtLeast, riskAdvice, riskLevel, riskLevels } from "./level";
+export { adjustMapRiskScore } from "./map";
+export { clamp, roundTo } from "./math";
+export {
+  OBSERVATION_WEIGHT,
+  blendRiskWithObservation,
+  measuredPollenTypeStatus,
+  observationScore,
+  overallObservedScore,
+} from "./observation";
+export {
+  estimatePollenTypeScore,
+  estimatePollenTypeStatus,
+  monthDistance,
+  pollenCatalog,
+  seasonalFactor,
+} from "./pollen";
+export { estimateRisk, forecastConfidence, riskFactors, seasonalBase } from "./risk";
+export type {
+  CalibrationFeature,
+  CalibrationModel,
+  CalibrationSample,
+  CalibrationWeight,
+  PersonalRisk,
+} from "./calibration";
+export type {
+  DailyRiskContext,
+  ForecastDay,
+  HourlyRisk,
+  PollenType,
+  PollenTypeId,
+  PollenTypeScore,
+  PollenTypeStatus,
+  RiskBreakdown,
+  RiskFactor,
+  RiskInput,
+  RiskLevel,
+  RiskResult,
+  RiskWindow,
+  ScoreSource,
+  WeatherSnapshot,
+} from "./types";
@@ -0,0 +1,27 @@
+import type { RiskLevel } from "./types";
+
+export const riskLevels: RiskLevel[] = ["低い", "やや高い", "高い", "非常に高い"];
+
+export function isLevelAtLeast(level: RiskLevel, threshold: RiskLevel) {
+  return riskLevels.indexOf(level) >= riskLevels.indexOf(threshold);
+}
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 75) return "非常に高い";
+  if (score >= 55) return "高い";
+  if (score >= 35) return "やや高い";
+  return "低い";
+}
+
+export function riskAdvice(level: RiskLevel): string {
+  if (level === "非常に高い") {
+    return "外出は短時間にし、マスク・メガネ・上着の花粉対策を徹底してください。";
+  }
+  if (level === "高い") {
+    return "長時間の外出後は衣類をはらい、洗顔・うがいを早めに行いましょう。";
+  }
+  if (level === "やや高い") {
+    return "油断せず、窓開け時間を短くして室内の花粉侵入を抑えると安心です。";
+  }
+  return "比較的穏やかですが、症状が出やすい方は予防薬を継続してください。";
+}
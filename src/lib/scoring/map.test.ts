@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { adjustMapRiskScore } from "./map";
+
+describe("adjustMapRiskScore", () => {
+  it("keeps the raw score for a fully suitable city in the spring season", () => {
+    expect(adjustMapRiskScore(80, 1, 3)).toBe(80);
+  });
+
+  it.each([
+    [80, 0.8, 5, 55],
+    [60, 1, 9, 39],
+    [50, 1, 7, 27],
+    [50, 1, 12, 27],
+  ])("pulls %i (suitability %f, month %i) toward the baseline → %i", (raw, suitability, month, expected) => {
+    expect(adjustMapRiskScore(raw, suitability, month)).toBe(expected);
+  });
+
+  it("clamps the effective suitability to 0.15-1", () => {
+    expect(adjustMapRiskScore(90, 0.1, 1)).toBe(25);
+    expect(adjustMapRiskScore(100, 2, 3)).toBe(100);
+  });
+});
@@ -0,0 +1,12 @@
+import { clamp } from "./math";
+
+export function adjustMapRiskScore(rawScore: number, suitability: number, month: number) {
+  const monthScale =
+    month >= 2 && month <= 4 ? 1 : month === 5 ? 0.78 : month >= 8 && month <= 10 ? 0.55 : 0.35;
+  const effectiveSuitability = clamp(suitability * monthScale, 0.15, 1);
+  const baseline = 14;
+
+  return Math.round(
+    clamp(rawScore * effectiveSuitability + baseline * (1 - effectiveSuitability), 0, 100),
+  );
+}
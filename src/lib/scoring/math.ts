@@ -0,0 +1,7 @@
+export function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function roundTo(value: number, digits = 1) {
+  return Number(value.toFixed(digits));
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { weatherFixtures } from "./fixtures/weather";
+import {
+  blendRiskWithObservation,
+  measuredPollenTypeStatus,
+  observationScore,
+  overallObservedScore,
+} from "./observation";
+import { estimatePollenTypeStatus } from "./pollen";
+import { estimateRisk } from "./risk";
+
+describe("observationScore", () => {
+  it.each([
+    [-5, 0],
+    [0, 0],
+    [5, 18],
+    [10, 35],
+    [30, 55],
+    [40, 65],
+    [50, 75],
+    [75, 88],
+    [100, 100],
+    [400, 100],
+  ])("%i grains/m³ → %i", (count, expected) => {
+    expect(observationScore(count)).toBe(expected);
+  });
+});
+
+describe("blendRiskWithObservation", () => {
+  const estimated = estimateRisk(weatherFixtures[0].input);
+
+  it("weights the observation at 0.7 and marks the result measured", () => {
+    const blended = blendRiskWithObservation(estimated, 20);
+    expect(blended.score).toBe(39);
+    expect(blended.level).toBe("やや高い");
+    expect(blended.source).toBe("measured");
+    expect(blended.breakdown).toEqual(estimated.breakdown);
+  });
+
+  it("accepts a custom weight", () => {
+    expect(blendRiskWithObservation(estimated, 20, 0).score).toBe(estimated.score);
+    expect(blendRiskWithObservation(estimated, 20, 1).score).toBe(20);
+  });
+});
+
+describe("measuredPollenTypeStatus", () => {
+  it("replaces the estimated score and level", () => {
+    const [cedar] = estimatePollenTypeStatus(3, weatherFixtures[0].input, 82);
+    expect(measuredPollenTypeStatus(cedar, 40)).toMatchObject({
+      id: "cedar",
+      score: 40,
+      level: "やや高い",
+      source: "measured",
+    });
+  });
+});
+
+describe("overallObservedScore", () => {
+  const march = estimatePollenTypeStatus(3, weatherFixtures[0].input, 82);
+
+  it("prefers the total count", () => {
+    expect(overallObservedScore(new Map([["total", 60], ["cedar", 90]]), march)).toBe(60);
+  });
+
+  it("uses the dominant estimated type when it was observed", () => {
+    expect(overallObservedScore(new Map([["cedar", 90], ["birch", 0]]), march)).toBe(90);
+  });
+
+  it("ignores observations of minor types", () => {
+    expect(overallObservedScore(new Map([["birch", 0], ["grass", 0]]), march)).toBeUndefined();
+    expect(overallObservedScore(new Map(), march)).toBeUndefined();
+  });
+});
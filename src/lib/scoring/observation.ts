@@ -0,0 +1,75 @@
+import { riskAdvice, riskLevel } from "./level";
+import { clamp } from "./math";
+import type { PollenTypeStatus, RiskResult } from "./types";
+
+export const OBSERVATION_WEIGHT = 0.7;
+
+// Hourly grains/m³ thresholds used by Japanese monitoring networks, mapped onto
+// the same score bands as riskLevel (10→やや高い, 30→高い, 50→非常に高い).
+const countScale: [count: number, score: number][] = [
+  [0, 0],
+  [10, 35],
+  [30, 55],
+  [50, 75],
+  [100, 100],
+];
+
+export function observationScore(grainsPerM3: number) {
+  const count = Math.max(0, grainsPerM3);
+  for (let index = 1; index < countScale.length; index += 1) {
+    const [upperCount, upperScore] = countScale[index];
+    if (count <= upperCount) {
+      const [lowerCount, lowerScore] = countScale[index - 1];
+      const ratio = (count - lowerCount) / (upperCount - lowerCount);
+      return Math.round(lowerScore + (upperScore - lowerScore) * ratio);
+    }
+  }
+  return 100;
+}
+
+export function blendRiskWithObservation(
+  estimated: RiskResult,
+  observedScore: number,
+  weight = OBSERVATION_WEIGHT,
+): RiskResult {
+  const score = Math.round(
+    clamp(estimated.score * (1 - weight) + observedScore * weight, 0, 100),
+  );
+  const level = riskLevel(score);
+
+  return {
+    ...estimated,
+    score,
+    level,
+    advice: riskAdvice(level),
+    source: "measured",
+  };
+}
+
+export function measuredPollenTypeStatus(
+  status: PollenTypeStatus,
+  observedScore: number,
+): PollenTypeStatus {
+  return {
+    ...status,
+    score: observedScore,
+    level: riskLevel(observedScore),
+    source: "measured",
+  };
+}
+
+// A single observed type only stands in for the overall count when it is the
+// type the estimate expects to dominate. Otherwise an off-season reading of 0
+// would pull the score down on a day when the main pollen is simply not measured.
+export function overallObservedScore(
+  observed: ReadonlyMap<string, number>,
+  estimatedTypes: PollenTypeStatus[],
+) {
+  const total = observed.get("total");
+  if (total !== undefined) return total;
+  const dominant = estimatedTypes.reduce<PollenTypeStatus | undefined>(
+    (best, type) => (!best || type.score > best.score ? type : best),
+    undefined,
+  );
+  return dominant ? observed.get(dominant.id) : undefined;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { weatherFixtures } from "./fixtures/weather";
+import {
+  estimatePollenTypeScore,
+  estimatePollenTypeStatus,
+  monthDistance,
+  pollenCatalog,
+  seasonalFactor,
+} from "./pollen";
+import type { PollenTypeId, WeatherSnapshot } from "./types";
+
+function pollenType(id: PollenTypeId) {
+  const type = pollenCatalog.find((item) => item.id === id);
+  if (!type) throw new Error(`unknown pollen type ${id}`);
+  return type;
+}
+
+const calm: WeatherSnapshot = {
+  temperature: 15,
+  humidity: 40,
+  wind: 3,
+  precipitation: 0,
+  pm10: 20,
+  pm25: 10,
+};
+
+describe("monthDistance", () => {
+  it("wraps around the new year", () => {
+    expect(monthDistance(1, 12)).toBe(1);
+    expect(monthDistance(11, 2)).toBe(3);
+    expect(monthDistance(6, 12)).toBe(6);
+  });
+});
+
+describe("seasonalFactor", () => {
+  const cedar = pollenType("cedar").seasonMonths;
+  const ragweed = pollenType("ragweed").seasonMonths;
+
+  it.each([
+    [2, 1],
+    [4, 1],
+    [1, 0.44],
+    [5, 0.44],
+    [12, 0.2],
+    [6, 0.2],
+    [11, 0],
+    [7, 0],
+  ])("cedar in month %i → %f", (month, expected) => {
+    expect(seasonalFactor(month, cedar)).toBe(expected);
+  });
+
+  it.each([
+    [10, 1],
+    [11, 0.44],
+    [12, 0.2],
+    [1, 0],
+    [7, 0.44],
+  ])("ragweed in month %i → %f", (month, expected) => {
+    expect(seasonalFactor(month, ragweed)).toBe(expected);
+  });
+});
+
+describe("estimatePollenTypeScore", () => {
+  it("adds the shoulder season, overall risk, wind and dryness", () => {
+    expect(estimatePollenTypeScore(pollenType("cedar"), 5, calm, 50)).toBe(52);
+  });
+
+  it("falls back to fixed boosts without weather", () => {
+    expect(estimatePollenTypeScore(pollenType("ragweed"), 6, null, 30)).toBe(31);
+  });
+
+  it("subtracts the rain penalty", () => {
+    const rainy = { ...calm, wind: 2, humidity: 80, precipitation: 1 };
+    expect(estimatePollenTypeScore(pollenType("grass"), 5, rainy, 20)).toBe(64);
+  });
+
+  it("clamps to 0-100", () => {
+    const rainy = { ...calm, wind: 0, humidity: 90, precipitation: 5 };
+    expect(estimatePollenTypeScore(pollenType("birch"), 11, rainy, 0)).toBe(0);
+    expect(estimatePollenTypeScore(pollenType("cedar"), 3, weatherFixtures[0].input, 82)).toBe(
+      100,
+    );
+  });
+});
+
+describe("estimatePollenTypeStatus", () => {
+  it("lists every type sorted by score", () => {
+    const status = estimatePollenTypeStatus(3, calm, 60);
+    expect(status).toHaveLength(pollenCatalog.length);
+    expect(status[0].id).toBe("cedar");
+    expect(status.map((item) => item.score)).toEqual(
+      [...status.map((item) => item.score)].sort((a, b) => b - a),
+    );
+    expect(status.every((item) => item.source === "estimated")).toBe(true);
+  });
+});
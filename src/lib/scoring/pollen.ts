@@ -0,0 +1,98 @@
+import { riskLevel } from "./level";
+import { clamp } from "./math";
+import type { PollenType, PollenTypeStatus, WeatherSnapshot } from "./types";
+
+export const pollenCatalog: PollenType[] = [
+  {
+    id: "cedar",
+    name: "スギ",
+    seasonMonths: [2, 3, 4],
+    peakMonths: [2, 3],
+    description: "日本で最も患者数が多い代表的な花粉。早春から急増します。",
+    care: "朝の飛散ピーク前に洗濯・換気を済ませると悪化を防ぎやすいです。",
+  },
+  {
+    id: "cypress",
+    name: "ヒノキ",
+    seasonMonths: [3, 4, 5],
+    peakMonths: [4],
+    description: "スギの後に飛散が強まり、症状が長引く要因になりやすい花粉です。",
+    care: "4月以降も自己判断で薬をやめず、就寝前の鼻洗浄を継続しましょう。",
+  },
+  {
+    id: "grass",
+    name: "イネ科",
+    seasonMonths: [4, 5, 6, 7, 8],
+    peakMonths: [5, 6],
+    description: "河川敷や草地の近くで反応しやすく、初夏まで長く続きます。",
+    care: "草地に近いルートを避け、帰宅時に靴と裾の花粉を落としてください。",
+  },
+  {
+    id: "ragweed",
+    name: "ブタクサ",
+    seasonMonths: [8, 9, 10],
+    peakMonths: [9],
+    description: "秋に増える代表花粉で、朝夕の散歩で症状が出る方が多いです。",
+    care: "秋は窓開け換気の時間帯を昼に寄せると吸入量を減らしやすいです。",
+  },
+  {
+    id: "birch",
+    name: "シラカンバ",
+    seasonMonths: [4, 5, 6],
+    peakMonths: [5],
+    description: "北海道・東北で注意される花粉。地域により体感差が大きいです。",
+    care: "目のかゆみが強い日は防風メガネと人工涙液を併用してください。",
+  },
+];
+
+export function monthDistance(a: number, b: number) {
+  const distance = Math.abs(a - b);
+  return Math.min(distance, 12 - distance);
+}
+
+export function seasonalFactor(currentMonth: number, seasonMonths: number[]) {
+  if (seasonMonths.includes(currentMonth)) return 1;
+  if (seasonMonths.some((month) => monthDistance(month, currentMonth) === 1)) {
+    return 0.44;
+  }
+  if (seasonMonths.some((month) => monthDistance(month, currentMonth) === 2)) {
+    return 0.2;
+  }
+  return 0;
+}
+
+export function estimatePollenTypeScore(
+  type: PollenType,
+  currentMonth: number,
+  weather: WeatherSnapshot | null,
+  overallRiskScore: number,
+) {
+  const season = seasonalFactor(currentMonth, type.seasonMonths);
+  const windBoost = weather ? clamp((weather.wind - 2) * 6, 0, 18) : 6;
+  const dryBoost = weather ? clamp((50 - weather.humidity) * 0.35, 0, 12) : 4;
+  const rainPenalty = weather && weather.precipitation > 0 ? 12 : 0;
+
+  const score = Math.round(
+    clamp(season * 72 + overallRiskScore * 0.22 + windBoost + dryBoost - rainPenalty, 0, 100),
+  );
+
+  return score;
+}
+
+export function estimatePollenTypeStatus(
+  currentMonth: number,
+  weather: WeatherSnapshot | null,
+  overallRiskScore: number,
+): PollenTypeStatus[] {
+  return pollenCatalog
+    .map((type) => {
+      const score = estimatePollenTypeScore(type, currentMonth, weather, overallRiskScore);
+      return {
+        ...type,
+        score,
+        level: riskLevel(score),
+        source: "estimated" as const,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
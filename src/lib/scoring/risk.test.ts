@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { weatherFixtures } from "./fixtures/weather";
+import { riskAdvice } from "./level";
+import { estimateRisk, forecastConfidence, seasonalBase } from "./risk";
+
+describe("estimateRisk", () => {
+  it.each(weatherFixtures)("pins the score and breakdown for a $name", (fixture) => {
+    const result = estimateRisk(fixture.input);
+    expect(result.score).toBe(fixture.score);
+    expect(result.level).toBe(fixture.level);
+    expect(result.advice).toBe(riskAdvice(fixture.level));
+    expect(result.source).toBe("estimated");
+    expect(result.breakdown).toEqual(fixture.breakdown);
+  });
+
+  it("scales the rain factor with the precipitation probability when given", () => {
+    const [fixture] = weatherFixtures;
+    expect(estimateRisk({ ...fixture.input, precipitationProbability: 50 }).breakdown.rain).toBe(-8);
+    expect(estimateRisk({ ...fixture.input, precipitationProbability: 0 }).breakdown.rain).toBe(0);
+    expect(estimateRisk({ ...fixture.input, precipitationProbability: 140 }).breakdown.rain).toBe(
+      -16,
+    );
+  });
+});
+
+describe("estimateRisk month", () => {
+  const input = weatherFixtures[0].input;
+
+  it("uses the JST month whatever the host timezone", () => {
+    // 2026-01-31T20:00Z is already 1 February in Japan.
+    const february = estimateRisk({ ...input, date: new Date("2026-01-31T20:00:00Z") });
+    expect(february.breakdown.seasonal).toBe(seasonalBase(2));
+    const january = estimateRisk({ ...input, date: new Date("2026-01-31T14:00:00Z") });
+    expect(january.breakdown.seasonal).toBe(seasonalBase(1));
+  });
+});
+
+describe("seasonalBase", () => {
+  it.each([
+    [1, 10],
+    [2, 48],
+    [4, 48],
+    [5, 36],
+    [6, 16],
+    [9, 16],
+    [10, 10],
+    [12, 10],
+  ])("month %i → %i", (month, expected) => {
+    expect(seasonalBase(month)).toBe(expected);
+  });
+});
+
+describe("forecastConfidence", () => {
+  it("drops with lead time and never goes below 0.2", () => {
+    expect(forecastConfidence(0)).toBe(1);
+    expect(forecastConfidence(6)).toBe(0.67);
+    expect(forecastConfidence(15)).toBe(0.2);
+  });
+});
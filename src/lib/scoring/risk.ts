@@ -0,0 +1,68 @@
+import { jstMonth } from "../date";
+import { riskAdvice, riskLevel } from "./level";
+import { clamp, roundTo } from "./math";
+import type { RiskBreakdown, RiskFactor, RiskInput, RiskResult } from "./types";
+
+export const riskFactors: RiskFactor[] = [
+  "seasonal",
+  "temperature",
+  "wind",
+  "humidity",
+  "pm25",
+  "pm10",
+  "rain",
+];
+
+export function seasonalBase(month: number): number {
+  if (month >= 2 && month <= 4) return 48;
+  if (month === 5) return 36;
+  if (month >= 6 && month <= 9) return 16;
+  return 10;
+}
+
+function rainEffect(input: RiskInput) {
+  if (input.precipitationProbability === undefined) {
+    return input.precipitation > 0 ? -16 : 0;
+  }
+  return -clamp(input.precipitationProbability, 0, 100) * 0.16;
+}
+
+export function forecastConfidence(leadDays: number) {
+  return roundTo(clamp(1 - leadDays * 0.055, 0.2, 1), 2);
+}
+
+export function estimateRisk(input: RiskInput): RiskResult {
+  const month = jstMonth(input.date);
+  const dryBoost = clamp((48 - input.humidity) * 0.6, 0, 15);
+  const dampPenalty = input.humidity >= 70 ? -6 : 0;
+
+  const breakdown: RiskBreakdown = {
+    seasonal: seasonalBase(month),
+    temperature: clamp((input.temperature - 12) * 1.8, -6, 22),
+    wind: clamp((input.wind - 2) * 2.9, 0, 20),
+    humidity: dryBoost + dampPenalty,
+    pm25: clamp((input.pm25 - 15) * 0.4, 0, 9),
+    pm10: clamp((input.pm10 - 30) * 0.25, 0, 8),
+    rain: rainEffect(input),
+  };
+
+  const score = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+  const normalized = Math.round(clamp(score, 0, 100));
+  const level = riskLevel(normalized);
+
+  return {
+    score: normalized,
+    level,
+    advice: riskAdvice(level),
+    source: "estimated",
+    breakdown: {
+      seasonal: breakdown.seasonal,
+      temperature: roundTo(breakdown.temperature),
+      wind: roundTo(breakdown.wind),
+      humidity: roundTo(breakdown.humidity),
+      pm25: roundTo(breakdown.pm25),
+      pm10: roundTo(breakdown.pm10),
+      rain: roundTo(breakdown.rain),
+    },
+  };
+}
@@ -0,0 +1,89 @@
+export type RiskLevel = "低い" | "やや高い" | "高い" | "非常に高い";
+
+export type WeatherSnapshot = {
+  temperature: number;
+  humidity: number;
+  wind: number;
+  precipitation: number;
+  pm10: number;
+  pm25: number;
+};
+
+export type RiskInput = WeatherSnapshot & {
+  date: Date;
+  precipitationProbability?: number;
+};
+
+export type RiskFactor =
+  | "seasonal"
+  | "temperature"
+  | "wind"
+  | "humidity"
+  | "pm25"
+  | "pm10"
+  | "rain";
+
+export type RiskBreakdown = Record<RiskFactor, number>;
+
+export type ScoreSource = "measured" | "estimated";
+
+export type RiskResult = {
+  score: number;
+  level: RiskLevel;
+  advice: string;
+  breakdown: RiskBreakdown;
+  source: ScoreSource;
+};
+
+export type ForecastDay = {
+  date: string;
+  score: number;
+  level: RiskLevel;
+  temperature: number;
+  humidity: number;
+  wind: number;
+  windDirection: number;
+  precipitation: number;
+  precipitationProbability: number;
+  pm10: number;
+  pm25: number;
+  confidence: number;
+};
+
+export type HourlyRisk = {
+  time: string;
+  score: number;
+  level: RiskLevel;
+};
+
+export type RiskWindow = {
+  date: string;
+  startHour: number;
+  endHour: number;
+  score: number;
+};
+
+export type PollenTypeId = "cedar" | "cypress" | "grass" | "ragweed" | "birch";
+
+export type PollenType = {
+  id: PollenTypeId;
+  name: string;
+  seasonMonths: number[];
+  peakMonths: number[];
+  description: string;
+  care: string;
+};
+
+export type PollenTypeStatus = PollenType & {
+  score: number;
+  level: RiskLevel;
+  source: ScoreSource;
+};
+
+export type PollenTypeScore = Pick<PollenTypeStatus, "id" | "score" | "level" | "source">;
+
+export type DailyRiskContext = {
+  risk: RiskResult;
+  weather: WeatherSnapshot;
+  pollenTypes: PollenTypeScore[];
+};
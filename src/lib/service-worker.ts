@@ -0,0 +1,9 @@
+export const CACHED_AT_HEADER = "X-Cached-At";
+
+let registration: Promise<ServiceWorkerRegistration> | null = null;
+
+export function registerServiceWorker() {
+  const version = process.env.NEXT_PUBLIC_BUILD_VERSION ?? "dev";
+  registration ??= navigator.serviceWorker.register(`/sw.js?v=${encodeURIComponent(version)}`);
+  return registration;
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import {
+  LEGACY_SYMPTOM_LOG_STORAGE_KEY,
+  SYMPTOM_LOG_STORAGE_KEY,
+  SYMPTOM_LOG_VERSION,
+  averageSeverity,
+  dailySeverities,
+  loadSymptomLog,
+  migrateSymptomLog,
+  sanitizeContext,
+  saveSymptomLog,
+  sortEntries,
+  upsertEntry,
+  type SymptomEntry,
+  type TimeOfDay,
+} from "./symptom-log";
+import { logContext } from "./testing/log-context";
+import { createMemoryStorage } from "./testing/memory-storage";
+
+function entry(date: string, timeOfDay: TimeOfDay, severity: number): SymptomEntry {
+  return {
+    id: `${date}:${timeOfDay}`,
+    date,
+    timeOfDay,
+    severity,
+    symptoms: null,
+    tookMedicine: false,
+    memo: "",
+    updatedAt: `${date}T12:00:00.000Z`,
+  };
+}
+
+const v1Entries = [
+  { date: "2026-03-01", severity: 6.4, tookMedicine: 1, memo: "くしゃみ" },
+  { date: "2026-03-02", severity: 14 },
+  { severity: 3 },
+];
+
+describe("migrateSymptomLog", () => {
+  it("turns each v1 day into an evening entry with unknown symptoms", () => {
+    expect(migrateSymptomLog({ version: 1, entries: v1Entries })).toEqual([
+      {
+        id: "2026-03-02:evening",
+        date: "2026-03-02",
+        timeOfDay: "evening",
+        severity: 10,
+        symptoms: null,
+        tookMedicine: false,
+        medications: undefined,
+        memo: "",
+        context: undefined,
+        updatedAt: "2026-03-02T00:00:00.000Z",
+      },
+      {
+        id: "2026-03-01:evening",
+        date: "2026-03-01",
+        timeOfDay: "evening",
+        severity: 6,
+        symptoms: null,
+        tookMedicine: true,
+        medications: undefined,
+        memo: "くしゃみ",
+        context: undefined,
+        updatedAt: "2026-03-01T00:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("sanitizes v2 entries and rebuilds their ids", () => {
+    const [result] = migrateSymptomLog({
+      version: SYMPTOM_LOG_VERSION,
+      entries: [
+        {
+          id: "wrong",
+          date: "2026-03-05",
+          timeOfDay: "morning",
+          severity: "7",
+          symptoms: { sneezing: 12, runnyNose: -1, congestion: "x" },
+          tookMedicine: true,
+          medications: [{ medicationId: "med-1", takenAt: "08:00" }, { medicationId: 3 }],
+          memo: 42,
+          updatedAt: "2026-03-05T09:00:00.000Z",
+        },
+      ],
+    });
+    expect(result).toMatchObject({
+      id: "2026-03-05:morning",
+      severity: 7,
+      symptoms: { sneezing: 10, runnyNose: 0, congestion: 0, itchyEyes: 0, sleepQuality: 0 },
+      medications: [{ medicationId: "med-1", takenAt: "08:00" }],
+      memo: "",
+    });
+  });
+
+  it("falls back to a stable updatedAt for entries without one", () => {
+    const stored = {
+      version: SYMPTOM_LOG_VERSION,
+      entries: [
+        { date: "2026-03-05", timeOfDay: "morning", severity: 3 },
+        { date: "2026-03-06", timeOfDay: "morning", severity: 3, updatedAt: "later" },
+      ],
+    };
+    const first = migrateSymptomLog(stored).map((item) => item.updatedAt);
+    expect(first).toEqual(["2026-03-06T00:00:00.000Z", "2026-03-05T00:00:00.000Z"]);
+    expect(migrateSymptomLog(stored).map((item) => item.updatedAt)).toEqual(first);
+  });
+
+  it("fails loudly when no migration exists for a version", () => {
+    expect(() => migrateSymptomLog({ version: 0, entries: [] })).toThrow(
+      "no symptom log migration from v0",
+    );
+  });
+});
+
+describe("loadSymptomLog", () => {
+  it("migrates the legacy key once and writes the v2 key", () => {
+    const storage = createMemoryStorage({
+      [LEGACY_SYMPTOM_LOG_STORAGE_KEY]: JSON.stringify(v1Entries),
+    });
+    const entries = loadSymptomLog(storage);
+
+    expect(entries.map((item) => item.id)).toEqual(["2026-03-02:evening", "2026-03-01:evening"]);
+    const stored = JSON.parse(storage.getItem(SYMPTOM_LOG_STORAGE_KEY) ?? "{}");
+    expect(stored.version).toBe(SYMPTOM_LOG_VERSION);
+    expect(loadSymptomLog(storage)).toEqual(entries);
+  });
+
+  it("round-trips through saveSymptomLog", () => {
+    const storage = createMemoryStorage();
+    const entries = [entry("2026-03-03", "morning", 4)];
+    saveSymptomLog(storage, entries);
+    expect(loadSymptomLog(storage)).toEqual([{ ...entries[0], medications: undefined }]);
+  });
+
+  it("returns an empty log when nothing is stored", () => {
+    expect(loadSymptomLog(createMemoryStorage())).toEqual([]);
+  });
+});
+
+describe("sortEntries and upsertEntry", () => {
+  it("orders newest date first and evening before morning", () => {
+    const sorted = sortEntries([
+      entry("2026-03-01", "evening", 1),
+      entry("2026-03-02", "morning", 2),
+      entry("2026-03-02", "evening", 3),
+    ]);
+    expect(sorted.map((item) => item.id)).toEqual([
+      "2026-03-02:evening",
+      "2026-03-02:morning",
+      "2026-03-01:evening",
+    ]);
+  });
+
+  it("replaces an entry with the same id", () => {
+    const entries = [entry("2026-03-02", "morning", 2), entry("2026-03-01", "evening", 1)];
+    const next = upsertEntry(entries, entry("2026-03-02", "morning", 8));
+    expect(next.map((item) => item.severity)).toEqual([8, 1]);
+  });
+});
+
+describe("dailySeverities and averageSeverity", () => {
+  it("averages the entries of each day", () => {
+    const days = dailySeverities([
+      entry("2026-03-02", "evening", 5),
+      entry("2026-03-02", "morning", 2),
+      entry("2026-03-01", "evening", 7),
+    ]);
+    expect(days.map(({ date, severity }) => ({ date, severity }))).toEqual([
+      { date: "2026-03-02", severity: 3.5 },
+      { date: "2026-03-01", severity: 7 },
+    ]);
+    expect(averageSeverity(days)).toBe(5.3);
+    expect(averageSeverity([])).toBeNull();
+  });
+});
+
+describe("sanitizeContext", () => {
+  it("keeps a complete context", () => {
+    const context = logContext();
+    expect(sanitizeContext(context)).toEqual(context);
+  });
+
+  it.each([
+    ["empty", {}],
+    ["missing pollen types", { ...logContext(), pollenTypes: undefined }],
+    ["unknown pollen type", { ...logContext(), topPollenTypes: ["pine"] }],
+    ["non-numeric weather", { ...logContext(), weather: { ...logContext().weather, wind: "5" } }],
+    ["bad risk level", { ...logContext(), risk: { ...logContext().risk, level: "最悪" } }],
+    ["no breakdown", { ...logContext(), risk: { ...logContext().risk, breakdown: {} } }],
+    ["bad location", { ...logContext(), location: { id: "x", name: "x" } }],
+  ])("drops a context with %s", (_, context) => {
+    expect(sanitizeContext(context)).toBeUndefined();
+  });
+
+  it("is applied when entries are loaded", () => {
+    const [result] = migrateSymptomLog({
+      version: SYMPTOM_LOG_VERSION,
+      entries: [{ ...entry("2026-03-05", "evening", 4), context: {} }],
+    });
+    expect(result.context).toBeUndefined();
+  });
+});
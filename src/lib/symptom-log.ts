@@ -0,0 +1,277 @@
+import { isLocationOption, type LocationOption } from "./geo";
+import type { MedicationIntake } from "./medication";
+import {
+  pollenCatalog,
+  riskFactors,
+  riskLevels,
+  type DailyRiskContext,
+  type PollenTypeId,
+  type PollenTypeScore,
+  type RiskLevel,
+  type RiskResult,
+  type WeatherSnapshot,
+} from "./scoring";
+
+export const SYMPTOM_LOG_STORAGE_KEY = "kafun-symptom-log-v2";
+export const LEGACY_SYMPTOM_LOG_STORAGE_KEY = "kafun-symptom-log-v1";
+export const SYMPTOM_LOG_VERSION = 2;
+
+export type SymptomKey = "sneezing" | "runnyNose" | "congestion" | "itchyEyes" | "sleepQuality";
+
+export type TimeOfDay = "morning" | "evening";
+
+export type LogContext = DailyRiskContext & {
+  location: LocationOption;
+  topPollenTypes: PollenTypeId[];
+  capturedBy: "save" | "backfill";
+};
+
+export type SymptomEntry = {
+  id: string;
+  date: string;
+  timeOfDay: TimeOfDay;
+  severity: number;
+  symptoms: Record<SymptomKey, number> | null;
+  tookMedicine: boolean;
+  medications?: MedicationIntake[];
+  memo: string;
+  context?: LogContext;
+  updatedAt: string;
+};
+
+export type DailySeverity = {
+  date: string;
+  severity: number;
+  entries: SymptomEntry[];
+};
+
+type StoredSymptomLog = {
+  version: number;
+  entries: unknown[];
+};
+
+export const symptomItems: { key: SymptomKey; label: string }[] = [
+  { key: "sneezing", label: "くしゃみ" },
+  { key: "runnyNose", label: "鼻水" },
+  { key: "congestion", label: "鼻づまり" },
+  { key: "itchyEyes", label: "目のかゆみ" },
+  { key: "sleepQuality", label: "睡眠の質の低下" },
+];
+
+export const timeOfDayLabels: Record<TimeOfDay, string> = {
+  morning: "朝",
+  evening: "夜",
+};
+
+export const emptySymptoms: Record<SymptomKey, number> = {
+  sneezing: 0,
+  runnyNose: 0,
+  congestion: 0,
+  itchyEyes: 0,
+  sleepQuality: 0,
+};
+
+export function entryId(date: string, timeOfDay: TimeOfDay) {
+  return `${date}:${timeOfDay}`;
+}
+
+function toScore(value: unknown) {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.min(10, Math.max(0, Math.round(num))) : 0;
+}
+
+type V1Entry = {
+  date?: unknown;
+  severity?: unknown;
+  tookMedicine?: unknown;
+  memo?: unknown;
+  context?: LogContext;
+};
+
+// v1 kept one record per day with no time of day or per-symptom detail. The single
+// daily record becomes the evening entry, and symptoms stay unknown rather than zero.
+function migrateV1(entries: unknown[]): unknown[] {
+  return entries.flatMap((raw) => {
+    const entry = raw as V1Entry;
+    if (typeof entry?.date !== "string") return [];
+    return [
+      {
+        id: entryId(entry.date, "evening"),
+        date: entry.date,
+        timeOfDay: "evening",
+        severity: toScore(entry.severity),
+        symptoms: null,
+        tookMedicine: Boolean(entry.tookMedicine),
+        memo: typeof entry.memo === "string" ? entry.memo : "",
+        context: entry.context,
+        updatedAt: `${entry.date}T00:00:00.000Z`,
+      } satisfies SymptomEntry,
+    ];
+  });
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPollenTypeId(value: unknown): value is PollenTypeId {
+  return pollenCatalog.some((type) => type.id === value);
+}
+
+function isScored(value: { score?: unknown; level?: unknown; source?: unknown }) {
+  return (
+    isFiniteNumber(value.score) &&
+    riskLevels.includes(value.level as RiskLevel) &&
+    (value.source === "measured" || value.source === "estimated")
+  );
+}
+
+function isRiskResult(value: unknown): value is RiskResult {
+  const risk = value as Partial<RiskResult> | null;
+  return (
+    !!risk &&
+    isScored(risk) &&
+    typeof risk.advice === "string" &&
+    typeof risk.breakdown === "object" &&
+    risk.breakdown !== null &&
+    riskFactors.every((factor) => isFiniteNumber(risk.breakdown?.[factor]))
+  );
+}
+
+function isWeatherSnapshot(value: unknown): value is WeatherSnapshot {
+  const weather = value as Partial<WeatherSnapshot> | null;
+  return (
+    !!weather &&
+    isFiniteNumber(weather.temperature) &&
+    isFiniteNumber(weather.humidity) &&
+    isFiniteNumber(weather.wind) &&
+    isFiniteNumber(weather.precipitation) &&
+    isFiniteNumber(weather.pm10) &&
+    isFiniteNumber(weather.pm25)
+  );
+}
+
+function isPollenTypeScore(value: unknown): value is PollenTypeScore {
+  const type = value as Partial<PollenTypeScore> | null;
+  return !!type && isPollenTypeId(type.id) && isScored(type);
+}
+
+// Context is rendered without further checks (reports, calibration, CSV), so a
+// context that is not complete is dropped rather than kept half-filled.
+export function sanitizeContext(raw: unknown): LogContext | undefined {
+  const context = raw as Partial<LogContext> | null;
+  if (
+    !context ||
+    !isLocationOption(context.location) ||
+    !isRiskResult(context.risk) ||
+    !isWeatherSnapshot(context.weather) ||
+    !Array.isArray(context.pollenTypes) ||
+    !context.pollenTypes.every(isPollenTypeScore) ||
+    !Array.isArray(context.topPollenTypes) ||
+    !context.topPollenTypes.every(isPollenTypeId) ||
+    (context.capturedBy !== "save" && context.capturedBy !== "backfill")
+  ) {
+    return undefined;
+  }
+  return context as LogContext;
+}
+
+const migrations: Record<number, (entries: unknown[]) => unknown[]> = {
+  1: migrateV1,
+};
+
+export function sanitizeEntry(raw: unknown): SymptomEntry | null {
+  const entry = raw as Partial<SymptomEntry> | null;
+  if (!entry || typeof entry.date !== "string") return null;
+  const timeOfDay: TimeOfDay = entry.timeOfDay === "morning" ? "morning" : "evening";
+
+  return {
+    id: entryId(entry.date, timeOfDay),
+    date: entry.date,
+    timeOfDay,
+    severity: toScore(entry.severity),
+    symptoms: entry.symptoms
+      ? (Object.fromEntries(
+          symptomItems.map((item) => [item.key, toScore(entry.symptoms?.[item.key])]),
+        ) as Record<SymptomKey, number>)
+      : null,
+    tookMedicine: Boolean(entry.tookMedicine),
+    medications: Array.isArray(entry.medications)
+      ? entry.medications.filter(
+          (intake) =>
+            typeof intake?.medicationId === "string" && typeof intake?.takenAt === "string",
+        )
+      : undefined,
+    memo: typeof entry.memo === "string" ? entry.memo : "",
+    context: sanitizeContext(entry.context),
+    // A fixed fallback, so sync never mistakes a reload for a fresh edit.
+    updatedAt:
+      typeof entry.updatedAt === "string" && !Number.isNaN(new Date(entry.updatedAt).getTime())
+        ? entry.updatedAt
+        : `${entry.date}T00:00:00.000Z`,
+  };
+}
+
+export function migrateSymptomLog(stored: StoredSymptomLog): SymptomEntry[] {
+  let entries = stored.entries;
+  for (let version = stored.version; version < SYMPTOM_LOG_VERSION; version += 1) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`no symptom log migration from v${version}`);
+    entries = migrate(entries);
+  }
+  return sortEntries(
+    entries.map(sanitizeEntry).filter((entry): entry is SymptomEntry => entry !== null),
+  );
+}
+
+export function loadSymptomLog(storage: Storage): SymptomEntry[] {
+  const raw = storage.getItem(SYMPTOM_LOG_STORAGE_KEY);
+  if (raw) {
+    return migrateSymptomLog(JSON.parse(raw) as StoredSymptomLog);
+  }
+
+  const legacy = storage.getItem(LEGACY_SYMPTOM_LOG_STORAGE_KEY);
+  if (!legacy) return [];
+
+  const entries = migrateSymptomLog({ version: 1, entries: JSON.parse(legacy) as unknown[] });
+  saveSymptomLog(storage, entries);
+  return entries;
+}
+
+export function saveSymptomLog(storage: Storage, entries: SymptomEntry[]) {
+  const stored: StoredSymptomLog = { version: SYMPTOM_LOG_VERSION, entries };
+  storage.setItem(SYMPTOM_LOG_STORAGE_KEY, JSON.stringify(stored));
+}
+
+export function sortEntries(entries: SymptomEntry[]) {
+  return [...entries].sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? 1 : -1;
+    return a.timeOfDay === b.timeOfDay ? 0 : a.timeOfDay === "evening" ? -1 : 1;
+  });
+}
+
+export function upsertEntry(entries: SymptomEntry[], entry: SymptomEntry) {
+  return sortEntries([entry, ...entries.filter((item) => item.id !== entry.id)]);
+}
+
+export function averageSeverity(days: DailySeverity[]) {
+  if (days.length === 0) return null;
+  return Number((days.reduce((sum, day) => sum + day.severity, 0) / days.length).toFixed(1));
+}
+
+export function dailySeverities(entries: SymptomEntry[]): DailySeverity[] {
+  const byDate = new Map<string, SymptomEntry[]>();
+  for (const entry of entries) {
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => (a < b ? 1 : -1))
+    .map(([date, list]) => ({
+      date,
+      severity: Number(
+        (list.reduce((sum, item) => sum + item.severity, 0) / list.length).toFixed(1),
+      ),
+      entries: list,
+    }));
+}
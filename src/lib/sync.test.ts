@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import type { SymptomEntry } from "./symptom-log";
+import {
+  MAX_SYNC_DATA_LENGTH,
+  MAX_SYNC_ID_LENGTH,
+  fromSyncRecords,
+  mergeSyncRecords,
+  newerRecord,
+  sanitizeSyncRecord,
+  syncStateFromRecords,
+  toSyncRecords,
+  trackLocalChanges,
+  type LocalSyncData,
+  type SyncRecord,
+  type SyncState,
+} from "./sync";
+
+const entry: SymptomEntry = {
+  id: "2026-03-01:morning",
+  date: "2026-03-01",
+  timeOfDay: "morning",
+  severity: 4,
+  symptoms: null,
+  tookMedicine: false,
+  memo: "",
+  updatedAt: "2026-03-01T08:00:00.000Z",
+};
+
+const data: LocalSyncData = {
+  entries: [entry],
+  actionHistory: { "2026-03-01": { mask: true } },
+  savedLocations: [
+    { id: "tokyo", name: "東京", lat: 35.68, lon: 139.77 },
+    { id: "osaka", name: "大阪", lat: 34.69, lon: 135.5 },
+  ],
+};
+
+const emptyState: SyncState = { lastSyncedAt: null, known: {} };
+
+function record(overrides: Partial<SyncRecord> = {}): SyncRecord {
+  return {
+    kind: "action",
+    id: "2026-03-01",
+    updatedAt: "2026-03-01T09:00:00.000Z",
+    deleted: false,
+    data: { mask: true },
+    ...overrides,
+  };
+}
+
+describe("newerRecord", () => {
+  it("keeps the later edit", () => {
+    const older = record();
+    const newer = record({ updatedAt: "2026-03-01T10:00:00.000Z", data: { mask: false } });
+    expect(newerRecord(undefined, older)).toBe(older);
+    expect(newerRecord(older, newer)).toBe(newer);
+    expect(newerRecord(newer, older)).toBe(newer);
+  });
+
+  it("prefers a deletion on an exact tie", () => {
+    const live = record();
+    const deleted = record({ deleted: true, data: null });
+    expect(newerRecord(live, deleted)).toBe(deleted);
+    expect(newerRecord(deleted, live)).toBe(deleted);
+  });
+});
+
+describe("trackLocalChanges", () => {
+  const now = "2026-03-02T00:00:00.000Z";
+  const later = "2026-03-03T00:00:00.000Z";
+
+  it("stamps symptom entries with their own edit time and the rest with now", () => {
+    const state = trackLocalChanges(emptyState, data, now);
+    expect(state.known["symptom:2026-03-01:morning"].updatedAt).toBe(entry.updatedAt);
+    expect(state.known["action:2026-03-01"].updatedAt).toBe(now);
+    expect(state.known["location:osaka"].updatedAt).toBe(now);
+  });
+
+  it("keeps the stamp of unchanged records and restamps edited ones", () => {
+    const state = trackLocalChanges(emptyState, data, now);
+    const edited = { ...data, actionHistory: { "2026-03-01": { mask: false } } };
+    const next = trackLocalChanges(state, edited, later);
+    expect(next.known["action:2026-03-01"].updatedAt).toBe(later);
+    expect(next.known["location:tokyo"].updatedAt).toBe(now);
+  });
+
+  it("restamps locations whose order changed", () => {
+    const state = trackLocalChanges(emptyState, data, now);
+    const reordered = { ...data, savedLocations: [...data.savedLocations].reverse() };
+    const next = trackLocalChanges(state, reordered, later);
+    expect(next.known["location:tokyo"].updatedAt).toBe(later);
+  });
+
+  it("turns removed records into tombstones once", () => {
+    const state = trackLocalChanges(emptyState, data, now);
+    const withoutLocations = { ...data, savedLocations: [] };
+    const removed = trackLocalChanges(state, withoutLocations, later);
+    expect(removed.known["location:tokyo"]).toEqual({
+      updatedAt: later,
+      digest: "",
+      deleted: true,
+    });
+    const again = trackLocalChanges(removed, withoutLocations, "2026-03-04T00:00:00.000Z");
+    expect(again.known["location:tokyo"].updatedAt).toBe(later);
+  });
+});
+
+describe("toSyncRecords / fromSyncRecords", () => {
+  it("round-trips local data, keeping location order", () => {
+    const state = trackLocalChanges(emptyState, data, "2026-03-02T00:00:00.000Z");
+    expect(fromSyncRecords(toSyncRecords(state, data))).toEqual(data);
+  });
+
+  it("sends tombstones without data", () => {
+    const state = trackLocalChanges(emptyState, data, "2026-03-02T00:00:00.000Z");
+    const withoutChecklist = { ...data, actionHistory: {} };
+    const removed = trackLocalChanges(state, withoutChecklist, "2026-03-03T00:00:00.000Z");
+    expect(toSyncRecords(removed, withoutChecklist)).toContainEqual({
+      kind: "action",
+      id: "2026-03-01",
+      updatedAt: "2026-03-03T00:00:00.000Z",
+      deleted: true,
+      data: null,
+    });
+  });
+
+  it("drops records whose data does not match their kind", () => {
+    const records = [
+      record({ kind: "symptom", id: "2026-03-01:morning", data: { mask: true } }),
+      record({ kind: "location", id: "tokyo", data: "東京" }),
+      record(),
+    ];
+    expect(fromSyncRecords(records)).toEqual({
+      entries: [],
+      actionHistory: { "2026-03-01": { mask: true } },
+      savedLocations: [],
+    });
+  });
+});
+
+describe("mergeSyncRecords", () => {
+  it("takes the newer record per key and keeps records only one side has", () => {
+    const local = [record(), record({ kind: "location", id: "tokyo" })];
+    const remote = [
+      record({ updatedAt: "2026-03-01T10:00:00.000Z", data: { mask: false } }),
+      record({ id: "2026-03-02" }),
+    ];
+    const merged = mergeSyncRecords(local, remote);
+    expect(merged).toHaveLength(3);
+    expect(merged).toContainEqual(remote[0]);
+    expect(merged).toContainEqual(local[1]);
+    expect(merged).toContainEqual(remote[1]);
+  });
+
+  it("lets a remote deletion remove a local record", () => {
+    const state = syncStateFromRecords([], "2026-03-01T00:00:00.000Z");
+    const local = toSyncRecords(trackLocalChanges(state, data, "2026-03-02T00:00:00.000Z"), data);
+    const remote = [
+      record({
+        kind: "location",
+        id: "osaka",
+        updatedAt: "2026-03-03T00:00:00.000Z",
+        deleted: true,
+        data: null,
+      }),
+    ];
+    expect(fromSyncRecords(mergeSyncRecords(local, remote)).savedLocations).toEqual([
+      data.savedLocations[0],
+    ]);
+  });
+});
+
+describe("sanitizeSyncRecord", () => {
+  it("rebuilds data from known fields", () => {
+    expect(sanitizeSyncRecord(record({ data: { mask: true, shower: "yes" } }))?.data).toEqual({
+      mask: true,
+    });
+    expect(
+      sanitizeSyncRecord(
+        record({
+          kind: "location",
+          id: "tokyo",
+          data: { ...data.savedLocations[0], position: 0, extra: "x" },
+        }),
+      )?.data,
+    ).toEqual({ ...data.savedLocations[0], position: 0 });
+    expect(
+      sanitizeSyncRecord(record({ kind: "symptom", id: entry.id, data: { ...entry, extra: 1 } }))
+        ?.data,
+    ).toEqual(entry);
+  });
+
+  it("clears the data of deletions", () => {
+    expect(sanitizeSyncRecord(record({ deleted: true }))?.data).toBeNull();
+  });
+
+  const tokyo = data.savedLocations[0];
+
+  it.each([
+    ["an unknown kind", record({ kind: "medication" as SyncRecord["kind"] })],
+    ["an empty id", record({ id: "" })],
+    ["an overlong id", record({ kind: "location", id: "x".repeat(MAX_SYNC_ID_LENGTH + 1) })],
+    ["an invalid updatedAt", record({ updatedAt: "yesterday" })],
+    ["a non-boolean deleted", record({ deleted: "no" as unknown as boolean })],
+    ["oversized data", record({ data: { memo: "x".repeat(MAX_SYNC_DATA_LENGTH) } })],
+    ["a checklist filed under a non-date", record({ id: "today" })],
+    ["a checklist that is not an object", record({ data: [true] })],
+    ["a symptom entry under another id", record({ kind: "symptom", id: "x:morning", data: entry })],
+    ["a symptom entry without a date", record({ kind: "symptom", id: entry.id, data: {} })],
+    ["a location under another id", record({ kind: "location", id: "osaka", data: tokyo })],
+    ["a location without a position", record({ kind: "location", id: "tokyo", data: tokyo })],
+    [
+      "a location with a negative position",
+      record({ kind: "location", id: "tokyo", data: { ...tokyo, position: -1 } }),
+    ],
+  ])("rejects %s", (_label, value) => {
+    expect(sanitizeSyncRecord(value)).toBeNull();
+  });
+
+  it("rejects non-objects", () => {
+    expect(sanitizeSyncRecord(null)).toBeNull();
+    expect(sanitizeSyncRecord("record")).toBeNull();
+  });
+});
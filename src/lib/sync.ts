@@ -0,0 +1,226 @@
+import { sanitizeActionState, type ActionHistory, type ActionState } from "./action-checklist";
+import { isDateString } from "./date";
+import { isLocationOption, type LocationOption } from "./geo";
+import { sanitizeEntry, sortEntries, type SymptomEntry } from "./symptom-log";
+
+export const SYNC_STATE_STORAGE_KEY = "kafun-sync-v1";
+export const MAX_SYNC_ID_LENGTH = 100;
+export const MAX_SYNC_DATA_LENGTH = 32_000;
+
+export type SyncKind = "symptom" | "action" | "location";
+
+export type SyncRecord = {
+  kind: SyncKind;
+  id: string;
+  updatedAt: string;
+  deleted: boolean;
+  data: unknown;
+};
+
+export type LocalSyncData = {
+  entries: SymptomEntry[];
+  actionHistory: ActionHistory;
+  savedLocations: LocationOption[];
+};
+
+type KnownRecord = {
+  updatedAt: string;
+  digest: string;
+  deleted: boolean;
+};
+
+export type SyncState = {
+  lastSyncedAt: string | null;
+  known: Record<string, KnownRecord>;
+};
+
+const syncKinds: SyncKind[] = ["symptom", "action", "location"];
+
+export function syncKey(record: Pick<SyncRecord, "kind" | "id">) {
+  return `${record.kind}:${record.id}`;
+}
+
+export function loadSyncState(storage: Storage): SyncState {
+  const raw = storage.getItem(SYNC_STATE_STORAGE_KEY);
+  if (!raw) return { lastSyncedAt: null, known: {} };
+  const stored = JSON.parse(raw) as Partial<SyncState>;
+  return { lastSyncedAt: stored.lastSyncedAt ?? null, known: stored.known ?? {} };
+}
+
+export function saveSyncState(storage: Storage, state: SyncState) {
+  storage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(state));
+}
+
+function currentRecords(data: LocalSyncData) {
+  return [
+    ...data.entries.map((entry) => ({ kind: "symptom" as const, id: entry.id, data: entry })),
+    ...Object.entries(data.actionHistory).map(([date, state]) => ({
+      kind: "action" as const,
+      id: date,
+      data: state,
+    })),
+    ...data.savedLocations.map((location, position) => ({
+      kind: "location" as const,
+      id: location.id,
+      data: { ...location, position },
+    })),
+  ];
+}
+
+// Only symptom entries carry their own edit time. Checklist days and saved
+// locations are stamped here when their content differs from what was last
+// seen, and records that disappeared become tombstones so a sync cannot bring
+// them back from another device.
+export function trackLocalChanges(state: SyncState, data: LocalSyncData, now: string): SyncState {
+  const known: Record<string, KnownRecord> = {};
+  for (const record of currentRecords(data)) {
+    const key = syncKey(record);
+    const digest = JSON.stringify(record.data);
+    const previous = state.known[key];
+    const updatedAt =
+      record.kind === "symptom"
+        ? (record.data as SymptomEntry).updatedAt
+        : previous && !previous.deleted && previous.digest === digest
+          ? previous.updatedAt
+          : now;
+    known[key] = { updatedAt, digest, deleted: false };
+  }
+
+  for (const [key, previous] of Object.entries(state.known)) {
+    if (known[key]) continue;
+    known[key] = previous.deleted ? previous : { updatedAt: now, digest: "", deleted: true };
+  }
+
+  return { ...state, known };
+}
+
+// After a sync the merged records become the new baseline, so changes pulled
+// from other devices are not stamped again as local edits.
+export function syncStateFromRecords(records: SyncRecord[], syncedAt: string): SyncState {
+  return {
+    lastSyncedAt: syncedAt,
+    known: Object.fromEntries(
+      records.map((record) => [
+        syncKey(record),
+        {
+          updatedAt: record.updatedAt,
+          digest: record.deleted ? "" : JSON.stringify(record.data),
+          deleted: record.deleted,
+        },
+      ]),
+    ),
+  };
+}
+
+export function toSyncRecords(state: SyncState, data: LocalSyncData): SyncRecord[] {
+  const live = currentRecords(data).map((record) => ({
+    ...record,
+    updatedAt: state.known[syncKey(record)]?.updatedAt ?? new Date(0).toISOString(),
+    deleted: false,
+  }));
+  const tombstones = Object.entries(state.known)
+    .filter(([, known]) => known.deleted)
+    .map(([key, known]) => {
+      const separator = key.indexOf(":");
+      return {
+        kind: key.slice(0, separator) as SyncKind,
+        id: key.slice(separator + 1),
+        updatedAt: known.updatedAt,
+        deleted: true,
+        data: null,
+      };
+    });
+  return [...live, ...tombstones];
+}
+
+function sanitizeSyncData(kind: SyncKind, id: string, raw: unknown): unknown {
+  if (kind === "symptom") {
+    const entry = sanitizeEntry(raw);
+    return entry && isDateString(entry.date) && entry.id === id ? entry : null;
+  }
+  if (kind === "action") {
+    return isDateString(id) && typeof raw === "object" && raw !== null && !Array.isArray(raw)
+      ? sanitizeActionState(raw)
+      : null;
+  }
+  const location = raw as (LocationOption & { position?: unknown }) | null;
+  return isLocationOption(location) &&
+    location.id === id &&
+    Number.isInteger(location.position) &&
+    (location.position as number) >= 0
+    ? {
+        id: location.id,
+        name: location.name,
+        lat: location.lat,
+        lon: location.lon,
+        position: location.position,
+      }
+    : null;
+}
+
+// Records come from other devices through the server, so both sides rebuild
+// the data from known fields instead of trusting its shape.
+export function sanitizeSyncRecord(value: unknown): SyncRecord | null {
+  const record = value as Partial<SyncRecord> | null;
+  if (
+    !syncKinds.includes(record?.kind as SyncKind) ||
+    typeof record?.id !== "string" ||
+    record.id.length === 0 ||
+    record.id.length > MAX_SYNC_ID_LENGTH ||
+    typeof record.updatedAt !== "string" ||
+    Number.isNaN(new Date(record.updatedAt).getTime()) ||
+    typeof record.deleted !== "boolean"
+  ) {
+    return null;
+  }
+
+  const kind = record.kind as SyncKind;
+  const base = { kind, id: record.id, updatedAt: record.updatedAt, deleted: record.deleted };
+  if (record.deleted) return { ...base, data: null };
+  if ((JSON.stringify(record.data) ?? "").length > MAX_SYNC_DATA_LENGTH) return null;
+
+  const data = sanitizeSyncData(kind, record.id, record.data);
+  return data ? { ...base, data } : null;
+}
+
+// Last write wins per record. On an exact tie a deletion is kept, since
+// resurrecting a removed record is the more surprising outcome.
+export function newerRecord(current: SyncRecord | undefined, incoming: SyncRecord) {
+  if (!current) return incoming;
+  if (incoming.updatedAt > current.updatedAt) return incoming;
+  if (incoming.updatedAt === current.updatedAt && incoming.deleted && !current.deleted) {
+    return incoming;
+  }
+  return current;
+}
+
+export function mergeSyncRecords(local: SyncRecord[], remote: SyncRecord[]) {
+  const merged = new Map(local.map((record) => [syncKey(record), record]));
+  for (const record of remote) {
+    merged.set(syncKey(record), newerRecord(merged.get(syncKey(record)), record));
+  }
+  return [...merged.values()];
+}
+
+export function fromSyncRecords(records: SyncRecord[]): LocalSyncData {
+  const live = records
+    .map(sanitizeSyncRecord)
+    .filter((record): record is SyncRecord => record !== null && !record.deleted);
+  return {
+    entries: sortEntries(
+      live
+        .filter((record) => record.kind === "symptom")
+        .map((record) => record.data as SymptomEntry),
+    ),
+    actionHistory: Object.fromEntries(
+      live
+        .filter((record) => record.kind === "action")
+        .map((record) => [record.id, record.data as ActionState]),
+    ),
+    savedLocations: live
+      .filter((record) => record.kind === "location")
+      .map((record) => record.data as LocationOption & { position: number })
+      .sort((a, b) => a.position - b.position)
+      .map(({ id, name, lat, lon }) => ({ id, name, lat, lon })),
+  };
+}
@@ -0,0 +1,20 @@
+import { jstMonth } from "../date";
+import { weatherFixtures } from "../scoring/fixtures/weather";
+import { estimatePollenTypeStatus, estimateRisk } from "../scoring";
+import type { LogContext } from "../symptom-log";
+
+export function logContext(): LogContext {
+  const { date, ...weather } = weatherFixtures[0].input;
+  const risk = estimateRisk({ date, ...weather });
+  const pollenTypes = estimatePollenTypeStatus(jstMonth(date), weather, risk.score).map(
+    ({ id, score, level, source }) => ({ id, score, level, source }),
+  );
+  return {
+    location: { id: "tokyo", name: "東京", lat: 35.6764, lon: 139.65 },
+    risk,
+    weather,
+    pollenTypes,
+    topPollenTypes: pollenTypes.slice(0, 2).map((type) => type.id),
+    capturedBy: "save",
+  };
+}
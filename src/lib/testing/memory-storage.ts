@@ -0,0 +1,24 @@
+// A Map-backed Storage for exercising the localStorage load/save helpers in tests.
+export function createMemoryStorage(initial: Record<string, string> = {}): Storage {
+  const items = new Map(Object.entries(initial));
+  return {
+    get length() {
+      return items.size;
+    },
+    clear() {
+      items.clear();
+    },
+    getItem(key) {
+      return items.get(key) ?? null;
+    },
+    key(index) {
+      return [...items.keys()][index] ?? null;
+    },
+    removeItem(key) {
+      items.delete(key);
+    },
+    setItem(key, value) {
+      items.set(key, String(value));
+    },
+  };
+}